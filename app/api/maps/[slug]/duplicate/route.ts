@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { createMapRequestSchema } from '@/lib/schema/node-map'
+import { duplicateMap } from '@/lib/server/map-store'
+import { errorResponse, parseJsonBody } from '../../responses'
+
+export async function POST(req: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+  const body = await parseJsonBody(req, createMapRequestSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const map = await duplicateMap(slug, body.data.name, body.data.slug)
+    return NextResponse.json({ map }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'Failed to duplicate map')
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { restoreMapRevision } from '@/lib/server/map-store'
+import { errorResponse, fromEtag, toEtag } from '../../../../responses'
+
+// Like a save, a restore needs the revision it replaces in If-Match and is refused with a 409 when it's stale
+export async function POST(req: Request, { params }: { params: Promise<{ slug: string; id: string }> }) {
+  const { slug, id } = await params
+
+  const ifMatch = req.headers.get('If-Match')
+  if (!ifMatch) {
+    return NextResponse.json(
+      { error: 'Restoring requires an If-Match header with the current revision' },
+      { status: 428 }
+    )
+  }
+
+  try {
+    const { document, revision } = await restoreMapRevision(slug, id, fromEtag(ifMatch))
+    return NextResponse.json({ document, revision }, { headers: { ETag: toEtag(revision) } })
+  } catch (error) {
+    return errorResponse(error, 'Failed to restore revision')
+  }
+}
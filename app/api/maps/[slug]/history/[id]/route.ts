@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { readMapRevision } from '@/lib/server/map-store'
+import { errorResponse } from '../../../responses'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(_req: Request, { params }: { params: Promise<{ slug: string; id: string }> }) {
+  const { slug, id } = await params
+
+  try {
+    return NextResponse.json({ snapshot: await readMapRevision(slug, id) })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load revision')
+  }
+}
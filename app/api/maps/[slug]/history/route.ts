@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { listMapRevisions } from '@/lib/server/map-store'
+import { errorResponse } from '../../responses'
+
+export const dynamic = 'force-dynamic'
+
+// Saved revisions of a map, newest first
+export async function GET(_req: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+
+  try {
+    return NextResponse.json({ revisions: await listMapRevisions(slug) })
+  } catch (error) {
+    return errorResponse(error, 'Failed to list revisions')
+  }
+}
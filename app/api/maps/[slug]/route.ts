@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import {
+  commitMessageSchema,
+  formatSchemaIssues,
+  parseNodeMapDocument,
+  updateMapRequestSchema,
+} from '@/lib/schema/node-map'
+import { MapConflictError, deleteMap, readMapEntry, saveMap, updateMap } from '@/lib/server/map-store'
+import { errorResponse, fromEtag, parseJsonBody, toEtag } from '../responses'
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export const dynamic = 'force-dynamic'
+
+// Return the current map. Clients revalidate on every load, getting a 304 while nothing has changed.
+// The ETag doubles as the revision to send back in If-Match when saving.
+export async function GET(req: Request, { params }: RouteContext) {
+  const { slug } = await params
+
+  try {
+    const { document, revision, updatedAt } = await readMapEntry(slug)
+    const etag = toEtag(revision)
+    const headers = {
+      ETag: etag,
+      'Last-Modified': updatedAt.toUTCString(),
+      'Cache-Control': 'no-cache',
+    }
+
+    // If-None-Match wins over If-Modified-Since, as in RFC 9110
+    const ifNoneMatch = req.headers.get('If-None-Match')
+    const ifModifiedSince = req.headers.get('If-Modified-Since')
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')
+      : ifModifiedSince !== null && Math.floor(updatedAt.getTime() / 1000) <= Date.parse(ifModifiedSince) / 1000
+
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+    return new NextResponse(JSON.stringify(document), { headers: { ...headers, 'Content-Type': 'application/json' } })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load node map')
+  }
+}
+
+// Save the map contents, with an optional `message` for the revision history. The If-Match revision is
+// required (428 without it), and the save is refused with a 409 (carrying the current map) when someone else
+// saved in the meantime. Overwriting a newer version means sending that version's revision.
+export async function PUT(req: Request, { params }: RouteContext) {
+  const { slug } = await params
+
+  let data: unknown
+  try {
+    data = await req.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be valid JSON' },
+      { status: 400 }
+    )
+  }
+
+  // Reject anything that doesn't match the schema before it can overwrite the map
+  const result = parseNodeMapDocument(data)
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid node map', issues: result.issues },
+      { status: 400 }
+    )
+  }
+
+  const message = commitMessageSchema
+    .optional()
+    .safeParse(data && typeof data === 'object' && 'message' in data ? data.message : undefined)
+  if (!message.success) {
+    return NextResponse.json(
+      { error: 'Invalid request', issues: formatSchemaIssues(message.error) },
+      { status: 400 }
+    )
+  }
+
+  const ifMatch = req.headers.get('If-Match')
+  if (!ifMatch) {
+    return NextResponse.json(
+      { error: 'Saving requires an If-Match header with the revision the changes are based on' },
+      { status: 428 }
+    )
+  }
+
+  try {
+    const revision = await saveMap(slug, result.document, fromEtag(ifMatch), message.data || undefined)
+
+    return NextResponse.json({ success: true, revision }, { headers: { ETag: toEtag(revision) } })
+  } catch (error) {
+    if (error instanceof MapConflictError) {
+      return NextResponse.json(
+        { error: error.message, revision: error.current.revision, document: error.current.document },
+        { status: 409, headers: { ETag: toEtag(error.current.revision) } }
+      )
+    }
+    return errorResponse(error, 'Failed to save node map')
+  }
+}
+
+// Rename a map (display name and/or slug)
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { slug } = await params
+  const body = await parseJsonBody(req, updateMapRequestSchema)
+  if ('response' in body) return body.response
+
+  try {
+    return NextResponse.json({ map: await updateMap(slug, body.data) })
+  } catch (error) {
+    return errorResponse(error, 'Failed to rename map')
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { slug } = await params
+
+  try {
+    await deleteMap(slug)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete map')
+  }
+}
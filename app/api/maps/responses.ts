@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+import { formatSchemaIssues } from '@/lib/schema/node-map'
+import { MapStoreError } from '@/lib/server/map-store'
+
+// Revisions travel as strong ETags
+export function toEtag(revision: string) {
+  return `"${revision}"`
+}
+
+export function fromEtag(etag: string) {
+  return etag.trim().replace(/^"|"$/g, '')
+}
+
+// Parse and validate a JSON request body, returning either the data or a ready-made 400 response
+export async function parseJsonBody<T>(
+  req: Request,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<{ data: T } | { response: NextResponse }> {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return {
+      response: NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 }),
+    }
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    return {
+      response: NextResponse.json(
+        { error: 'Invalid request', issues: formatSchemaIssues(result.error) },
+        { status: 400 }
+      ),
+    }
+  }
+  return { data: result.data }
+}
+
+// Map store errors to their status code; anything else is logged as a server error
+export function errorResponse(error: unknown, message: string) {
+  if (error instanceof MapStoreError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  console.error(`${message}:`, error)
+  return NextResponse.json({ error: message }, { status: 500 })
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { createMapRequestSchema } from '@/lib/schema/node-map'
+import { createMap, listMaps } from '@/lib/server/map-store'
+import { errorResponse, parseJsonBody } from './responses'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    return NextResponse.json({ maps: await listMaps() })
+  } catch (error) {
+    return errorResponse(error, 'Failed to list maps')
+  }
+}
+
+export async function POST(req: Request) {
+  const body = await parseJsonBody(req, createMapRequestSchema)
+  if ('response' in body) return body.response
+
+  try {
+    const map = await createMap(body.data.name, body.data.slug)
+    return NextResponse.json({ map }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'Failed to create map')
+  }
+}
@@ -1,11 +1,6 @@
-"use client"
-
-import NodeMap from "@/components/node-map"
+import { redirect } from "next/navigation"
+import { DEFAULT_MAP_SLUG } from "@/lib/schema/node-map"
 
 export default function EditPage() {
-  return (
-    <div className="min-h-screen bg-black">
-      <NodeMap />
-    </div>
-  )
-} 
\ No newline at end of file
+  redirect(`/maps/${DEFAULT_MAP_SLUG}/edit`)
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import NodeMap from "@/components/node-map"
+import { MapLoader } from "@/components/map-loader"
+
+export default function EditMapPage() {
+  const { slug } = useParams<{ slug: string }>()
+
+  return (
+    <div className="min-h-screen bg-black">
+      <MapLoader slug={slug} withToolbar>
+        {(document, revision) => (
+          <>
+            <div className="flex items-center space-x-3 px-1 py-2 text-sm">
+              <Link href="/maps" className="text-gray-400 hover:text-white">
+                ← All maps
+              </Link>
+              <span className="text-white font-semibold">{document.name ?? slug}</span>
+            </div>
+            <NodeMap slug={slug} initialGraph={document} initialRevision={revision} />
+          </>
+        )}
+      </MapLoader>
+    </div>
+  )
+}
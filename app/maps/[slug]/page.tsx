@@ -0,0 +1,15 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import NodeMapSimple from "@/components/node-map-simple"
+import { MapLoader } from "@/components/map-loader"
+
+export default function MapPage() {
+  const { slug } = useParams<{ slug: string }>()
+
+  return (
+    <main className="min-h-screen bg-black">
+      <MapLoader slug={slug}>{(document) => <NodeMapSimple initialGraph={document} />}</MapLoader>
+    </main>
+  )
+}
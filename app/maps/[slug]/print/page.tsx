@@ -0,0 +1,35 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { MapPrintout } from "@/components/map-printout"
+import { MapStoreError, readMapEntry } from "@/lib/server/map-store"
+
+type PageProps = { params: Promise<{ slug: string }> }
+
+export const dynamic = "force-dynamic"
+
+// Read once per request for both the metadata and the page; unknown maps and bad slugs show the 404 page
+const loadMap = cache(async (slug: string) => {
+  try {
+    return await readMapEntry(slug)
+  } catch (error) {
+    if (error instanceof MapStoreError) notFound()
+    throw error
+  }
+})
+
+// The title doubles as the file name browsers suggest for "Print to PDF"
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params
+  const { document } = await loadMap(slug)
+  return { title: document.name ?? slug }
+}
+
+// Printable handout rendered entirely on the server: the map on the first page, then an appendix of its
+// nodes and signals
+export default async function PrintMapPage({ params }: PageProps) {
+  const { slug } = await params
+  const { document, updatedAt } = await loadMap(slug)
+
+  return <MapPrintout slug={slug} document={document} updatedAt={updatedAt} />
+}
@@ -0,0 +1,15 @@
+import { MapIndex } from "@/components/map-index"
+import { DEFAULT_MAP_SLUG } from "@/lib/schema/node-map"
+import { listMaps } from "@/lib/server/map-store"
+
+export const dynamic = "force-dynamic"
+
+export default async function MapsPage() {
+  const maps = await listMaps()
+
+  return (
+    <main className="min-h-screen bg-black">
+      <MapIndex maps={maps} defaultSlug={DEFAULT_MAP_SLUG} />
+    </main>
+  )
+}
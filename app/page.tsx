@@ -1,12 +1,13 @@
 "use client"
 
 import NodeMapSimple from "@/components/node-map-simple"
+import { MapLoader } from "@/components/map-loader"
+import { DEFAULT_MAP_SLUG } from "@/lib/schema/node-map"
 
 export default function Home() {
   return (
     <main className="min-h-screen bg-black">
-      <NodeMapSimple />
+      <MapLoader slug={DEFAULT_MAP_SLUG}>{(document) => <NodeMapSimple initialGraph={document} />}</MapLoader>
     </main>
   )
 }
-
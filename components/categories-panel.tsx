@@ -0,0 +1,155 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { categorySchema } from "@/lib/schema/node-map"
+import { CATEGORY_PRESET_COLORS } from "@/lib/utils/categories"
+import type { CategoryData } from "@/lib/types/node-types"
+
+interface CategoriesPanelProps {
+  open: boolean
+  categories: CategoryData[]
+  // Number of nodes in each category, by id, to warn before removing one that is in use
+  nodeCounts: Map<string, number>
+  onClose: () => void
+  onSave: (categories: CategoryData[]) => void
+}
+
+// Edit the map's category palette: add, rename, recolor and remove categories
+export function CategoriesPanel({ open, categories, nodeCounts, onClose, onSave }: CategoriesPanelProps) {
+  const [draft, setDraft] = useState<CategoryData[]>(categories)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Start from the saved palette every time the panel opens
+  useEffect(() => {
+    if (open) {
+      setDraft(categories)
+      setErrors({})
+    }
+  }, [open])
+
+  const updateCategory = (id: string, update: Partial<CategoryData>) => {
+    setDraft((prev) => prev.map((category) => (category.id === id ? { ...category, ...update } : category)))
+  }
+
+  const addCategory = () => {
+    const stamp = Date.now()
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: `category-${stamp}-${prev.length}`,
+        name: "",
+        color: CATEGORY_PRESET_COLORS[prev.length % CATEGORY_PRESET_COLORS.length],
+      },
+    ])
+  }
+
+  const removeCategory = (id: string) => {
+    setDraft((prev) => prev.filter((category) => category.id !== id))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const fieldErrors: Record<string, string> = {}
+    const names = new Set<string>()
+    const cleaned = draft.map((category) => ({ ...category, name: category.name.trim() }))
+    cleaned.forEach((category) => {
+      const result = categorySchema.safeParse(category)
+      if (!result.success) {
+        fieldErrors[category.id] = result.error.issues[0].message
+      } else if (names.has(category.name.toLowerCase())) {
+        fieldErrors[category.id] = `Duplicate category "${category.name}"`
+      }
+      names.add(category.name.toLowerCase())
+    })
+    if (Object.keys(fieldErrors).length > 0) {
+      setErrors(fieldErrors)
+      return
+    }
+
+    onSave(cleaned)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="bg-gray-900 border-gray-700 text-white overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Categories</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Nodes take their category&apos;s color, and their signals and connections follow.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          {draft.length === 0 && <p className="text-sm text-gray-400">No categories yet.</p>}
+
+          {draft.map((category) => {
+            const count = nodeCounts.get(category.id) ?? 0
+            return (
+              <div key={category.id} className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="color"
+                    value={category.color}
+                    onChange={(e) => updateCategory(category.id, { color: e.target.value.toUpperCase() })}
+                    className="h-9 w-12 shrink-0 cursor-pointer bg-white p-1"
+                    aria-label={`Color of ${category.name || "new category"}`}
+                  />
+                  <Input
+                    value={category.name}
+                    onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                    className="bg-white text-black"
+                    placeholder="Name, e.g. Biotech"
+                    aria-label="Category name"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0 text-red-400 hover:bg-gray-700 hover:text-red-300"
+                    onClick={() => removeCategory(category.id)}
+                    title={
+                      count > 0 ? `Remove (${count} node${count === 1 ? "" : "s"} will have no category)` : "Remove"
+                    }
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+                {errors[category.id] && <p className="text-xs text-red-400">{errors[category.id]}</p>}
+              </div>
+            )
+          })}
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full bg-gray-800 text-white border-gray-700 hover:bg-gray-700 hover:text-white"
+            onClick={addCategory}
+          >
+            <Plus /> Add category
+          </Button>
+
+          <SheetFooter className="pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+              onClick={onClose}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 text-white hover:bg-blue-500">
+              Save
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import {
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Copy,
+  Crosshair,
+  FileSpreadsheet,
+  FileCode,
+  Focus,
+  Grid3x3,
+  Image as ImageIcon,
+  Keyboard,
+  Maximize,
+  Network,
+  Palette,
+  Pencil,
+  Play,
+  Plus,
+  Printer,
+  Save,
+  Square,
+  Trash2,
+} from "lucide-react"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { formatShortcut } from "@/components/shortcuts-dialog"
+import type { ImageFormat } from "@/components/export-image-dialog"
+import {
+  ALIGN_LABELS,
+  ALIGN_MODES,
+  DISTRIBUTE_AXES,
+  DISTRIBUTE_LABELS,
+  type AlignMode,
+  type DistributeAxis,
+} from "@/lib/utils/alignment"
+import type { NodeData } from "@/lib/types/node-types"
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  nodes: NodeData[]
+  isLiveMode: boolean
+  selectionCount: number
+  // Adding a signal needs exactly one selected node, renaming exactly one selected element
+  canAddSignal: boolean
+  canRename: boolean
+  onAddNode: () => void
+  onAddSignal: () => void
+  onRename: () => void
+  onDuplicate: () => void
+  onDelete: () => void
+  onJumpToNode: (id: string) => void
+  onToggleLiveMode: () => void
+  onFitView: () => void
+  onZoomToSelection: () => void
+  onAutoLayout: () => void
+  onAlign: (mode: AlignMode) => void
+  onDistribute: (axis: DistributeAxis) => void
+  isGridEnabled: boolean
+  onToggleGrid: () => void
+  onEditCategories: () => void
+  onExportImage: (format: ImageFormat) => void
+  onExportCsv: () => void
+  onPrint: () => void
+  onSave: () => void
+  onShowShortcuts: () => void
+}
+
+const ALIGN_ICONS = { left: AlignStartVertical, center: AlignCenterVertical, right: AlignEndVertical }
+const DISTRIBUTE_ICONS = { horizontal: AlignHorizontalDistributeCenter, vertical: AlignVerticalDistributeCenter }
+
+const itemClassName = "text-gray-200 data-[selected=true]:bg-gray-800 data-[selected=true]:text-white"
+const groupClassName = "text-gray-200 [&_[cmdk-group-heading]]:text-gray-400"
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  nodes,
+  isLiveMode,
+  selectionCount,
+  canAddSignal,
+  canRename,
+  onAddNode,
+  onAddSignal,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onJumpToNode,
+  onToggleLiveMode,
+  onFitView,
+  onZoomToSelection,
+  onAutoLayout,
+  onAlign,
+  onDistribute,
+  isGridEnabled,
+  onToggleGrid,
+  onEditCategories,
+  onExportImage,
+  onExportCsv,
+  onPrint,
+  onSave,
+  onShowShortcuts,
+}: CommandPaletteProps) {
+  // Close first so follow-up dialogs (e.g. rename) can take focus
+  const run = (action: () => void) => () => {
+    onOpenChange(false)
+    action()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 bg-gray-900 border-gray-700 text-white [&>button]:hidden">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <Command className="bg-gray-900 text-white [&_[cmdk-input-wrapper]]:border-gray-700 [&_[cmdk-input]]:h-12">
+          <CommandInput placeholder="Type a command or node name…" />
+          <CommandList className="max-h-[400px]">
+            <CommandEmpty className="py-6 text-center text-sm text-gray-400">No matching commands.</CommandEmpty>
+
+            {!isLiveMode && (
+              <>
+                <CommandGroup heading="Edit" className={groupClassName}>
+                  <CommandItem className={itemClassName} onSelect={run(onAddNode)}>
+                    <Plus /> Add node
+                  </CommandItem>
+                  <CommandItem className={itemClassName} disabled={!canAddSignal} onSelect={run(onAddSignal)}>
+                    <Plus /> Add signal to selected node
+                  </CommandItem>
+                  <CommandItem className={itemClassName} disabled={!canRename} onSelect={run(onRename)}>
+                    <Pencil /> Rename selected
+                  </CommandItem>
+                  <CommandItem className={itemClassName} disabled={selectionCount === 0} onSelect={run(onDuplicate)}>
+                    <Copy /> Duplicate selection
+                    <CommandShortcut>{formatShortcut("duplicate")}</CommandShortcut>
+                  </CommandItem>
+                  <CommandItem className={itemClassName} disabled={selectionCount === 0} onSelect={run(onDelete)}>
+                    <Trash2 /> Delete selection
+                    <CommandShortcut>{formatShortcut("delete")}</CommandShortcut>
+                  </CommandItem>
+                  <CommandItem className={itemClassName} onSelect={run(onAutoLayout)}>
+                    <Network /> Auto-layout
+                  </CommandItem>
+                  <CommandItem className={itemClassName} onSelect={run(onToggleGrid)}>
+                    <Grid3x3 /> {isGridEnabled ? "Turn off snap to grid" : "Turn on snap to grid"}
+                  </CommandItem>
+                  <CommandItem className={itemClassName} onSelect={run(onEditCategories)}>
+                    <Palette /> Edit categories
+                  </CommandItem>
+                </CommandGroup>
+
+                <CommandGroup heading="Arrange selection" className={groupClassName}>
+                  {ALIGN_MODES.map((mode) => {
+                    const Icon = ALIGN_ICONS[mode]
+                    return (
+                      <CommandItem
+                        key={mode}
+                        className={itemClassName}
+                        disabled={selectionCount < 2}
+                        onSelect={run(() => onAlign(mode))}
+                      >
+                        <Icon /> Align {ALIGN_LABELS[mode].toLowerCase()}
+                      </CommandItem>
+                    )
+                  })}
+                  {DISTRIBUTE_AXES.map((axis) => {
+                    const Icon = DISTRIBUTE_ICONS[axis]
+                    return (
+                      <CommandItem
+                        key={axis}
+                        className={itemClassName}
+                        disabled={selectionCount < 3}
+                        onSelect={run(() => onDistribute(axis))}
+                      >
+                        <Icon /> Distribute {DISTRIBUTE_LABELS[axis].toLowerCase()}
+                      </CommandItem>
+                    )
+                  })}
+                </CommandGroup>
+              </>
+            )}
+
+            <CommandGroup heading="Map" className={groupClassName}>
+              <CommandItem className={itemClassName} onSelect={run(onToggleLiveMode)}>
+                {isLiveMode ? <Square /> : <Play />} {isLiveMode ? "Switch to Edit Mode" : "Switch to Live Mode"}
+              </CommandItem>
+              <CommandItem className={itemClassName} onSelect={run(onFitView)}>
+                <Maximize /> Fit view
+              </CommandItem>
+              <CommandItem className={itemClassName} disabled={selectionCount === 0} onSelect={run(onZoomToSelection)}>
+                <Focus /> Zoom to selection
+                <CommandShortcut>{formatShortcut("zoomToSelection")}</CommandShortcut>
+              </CommandItem>
+              <CommandItem className={itemClassName} onSelect={run(() => onExportImage("svg"))}>
+                <FileCode /> Export SVG
+              </CommandItem>
+              <CommandItem className={itemClassName} onSelect={run(() => onExportImage("png"))}>
+                <ImageIcon /> Export PNG
+              </CommandItem>
+              <CommandItem className={itemClassName} onSelect={run(onExportCsv)}>
+                <FileSpreadsheet /> Export CSV
+              </CommandItem>
+              <CommandItem className={itemClassName} onSelect={run(onPrint)}>
+                <Printer /> Print handout
+              </CommandItem>
+              {!isLiveMode && (
+                <CommandItem className={itemClassName} onSelect={run(onSave)}>
+                  <Save /> Save to project
+                  <CommandShortcut>{formatShortcut("save")}</CommandShortcut>
+                </CommandItem>
+              )}
+              <CommandItem className={itemClassName} onSelect={run(onShowShortcuts)}>
+                <Keyboard /> Keyboard shortcuts
+                <CommandShortcut>{formatShortcut("shortcuts")}</CommandShortcut>
+              </CommandItem>
+            </CommandGroup>
+
+            {!isLiveMode && nodes.length > 0 && (
+              <>
+                <CommandSeparator className="bg-gray-700" />
+                <CommandGroup heading="Jump to node" className={groupClassName}>
+                  {nodes.map((node) => (
+                    // Values must be unique, so the id rides along; the text is what gets matched
+                    <CommandItem
+                      key={node.id}
+                      value={`${node.text} ${node.id}`}
+                      keywords={[node.text]}
+                      className={itemClassName}
+                      onSelect={run(() => onJumpToNode(node.id))}
+                    >
+                      <Crosshair /> {node.text}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,20 +5,54 @@ import type React from "react"
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { RELATIONSHIP_LABELS, RELATIONSHIP_TYPES } from "@/lib/schema/node-map"
+import {
+  ALIGN_LABELS,
+  ALIGN_MODES,
+  DISTRIBUTE_AXES,
+  DISTRIBUTE_LABELS,
+  type AlignMode,
+  type DistributeAxis,
+} from "@/lib/utils/alignment"
+import type { CategoryData, RelationshipType } from "@/lib/types/node-types"
 
 interface ContextMenuProps {
   x: number
   y: number
   svgX: number
   svgY: number
-  type: "canvas" | "node" | "signal"
+  type: "canvas" | "node" | "signal" | "relationship"
   id?: string
-  parentId?: string
+  // Element text, or a relationship's label
   currentText?: string
+  // Nodes a signal links to; a shared signal can be unlinked from each of them
+  linkedNodes?: { id: string; text: string }[]
+  relationshipType?: RelationshipType
+  // Whether the node is pinned in place for auto-layout
+  pinned?: boolean
+  // Number of selected elements; above one the menu acts on the whole selection
+  selectionCount?: number
+  // The map's category palette, and the node's category
+  categories?: CategoryData[]
+  categoryId?: string
   onClose: () => void
   onAddNode: () => void
   onAddSignal: () => void
   onEditText: (text: string) => void
+  onEditDetails?: () => void
+  onDuplicate?: () => void
+  // Line up or space out the selection; distributing needs at least three elements
+  onAlign?: (mode: AlignMode) => void
+  onDistribute?: (axis: DistributeAxis) => void
+  onUnlink?: (nodeId: string) => void
+  onTogglePinned?: () => void
+  // Start a relationship from the node; the next node clicked becomes its target
+  onAddRelationship?: (type: RelationshipType) => void
+  onChangeRelationshipType?: (type: RelationshipType) => void
+  onReverseRelationship?: () => void
+  // Put the node (or every selected node) in a category, or in none
+  onSetCategory?: (categoryId: string | undefined) => void
+  onEditCategories?: () => void
   onDelete: () => void
 }
 
@@ -29,12 +63,28 @@ export function ContextMenu({
   svgY,
   type,
   id,
-  parentId,
   currentText = "",
+  linkedNodes = [],
+  relationshipType,
+  pinned = false,
+  selectionCount = 0,
+  categories = [],
+  categoryId,
   onClose,
   onAddNode,
   onAddSignal,
   onEditText,
+  onEditDetails,
+  onDuplicate,
+  onAlign,
+  onDistribute,
+  onUnlink,
+  onTogglePinned,
+  onAddRelationship,
+  onChangeRelationshipType,
+  onReverseRelationship,
+  onSetCategory,
+  onEditCategories,
   onDelete,
 }: ContextMenuProps) {
   const [isEditing, setIsEditing] = useState(false)
@@ -67,6 +117,39 @@ export function ContextMenu({
     setIsRenaming(false)
   }
 
+  // Category choices for a node, or for every selected node; the current category is highlighted
+  const renderCategoryOptions = () =>
+    onSetCategory && (
+      <>
+        <p className="px-4 pt-1 text-xs text-gray-400">Category</p>
+        {[{ id: undefined, name: "None", color: undefined }, ...categories].map((category) => (
+          <Button
+            key={category.id ?? "none"}
+            variant="ghost"
+            className={`justify-start hover:bg-gray-700 hover:text-white ${
+              selectionCount <= 1 && category.id === categoryId ? "text-blue-300" : "text-white"
+            }`}
+            onClick={() => onSetCategory(category.id)}
+          >
+            <span
+              className="h-3 w-3 shrink-0 rounded-full border border-gray-500"
+              style={{ backgroundColor: category.color }}
+            />
+            {category.name}
+          </Button>
+        ))}
+        {onEditCategories && (
+          <Button
+            variant="ghost"
+            className="justify-start text-white hover:bg-gray-700 hover:text-white"
+            onClick={onEditCategories}
+          >
+            Edit Categories…
+          </Button>
+        )}
+      </>
+    )
+
   // Calculate position to ensure menu stays within viewport
   const calculatePosition = () => {
     // Get viewport dimensions
@@ -106,7 +189,9 @@ export function ContextMenu({
             onChange={(e) => setText(e.target.value)}
             autoFocus
             className="mb-2 bg-white text-black border-gray-300 focus:border-blue-500"
-            placeholder={isRenaming ? "Enter new name" : "Enter text"}
+            placeholder={
+              type === "relationship" ? "Enter label (optional)" : isRenaming ? "Enter new name" : "Enter text"
+            }
           />
           <div className="flex justify-end space-x-2">
             <Button
@@ -138,7 +223,52 @@ export function ContextMenu({
             </Button>
           )}
 
-          {type === "node" && (
+          {(type === "node" || type === "signal") && selectionCount > 1 && (
+            <>
+              {onDuplicate && (
+                <Button
+                  variant="ghost"
+                  className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                  onClick={onDuplicate}
+                >
+                  Duplicate {selectionCount} Selected
+                </Button>
+              )}
+              {onAlign &&
+                ALIGN_MODES.map((mode) => (
+                  <Button
+                    key={mode}
+                    variant="ghost"
+                    className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                    onClick={() => onAlign(mode)}
+                  >
+                    Align {ALIGN_LABELS[mode]}
+                  </Button>
+                ))}
+              {onDistribute &&
+                selectionCount > 2 &&
+                DISTRIBUTE_AXES.map((axis) => (
+                  <Button
+                    key={axis}
+                    variant="ghost"
+                    className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                    onClick={() => onDistribute(axis)}
+                  >
+                    Distribute {DISTRIBUTE_LABELS[axis]}
+                  </Button>
+                ))}
+              {type === "node" && renderCategoryOptions()}
+              <Button
+                variant="ghost"
+                className="justify-start text-red-400 hover:bg-gray-700 hover:text-red-300"
+                onClick={onDelete}
+              >
+                Delete {selectionCount} Selected
+              </Button>
+            </>
+          )}
+
+          {type === "node" && selectionCount <= 1 && (
             <>
               <Button
                 variant="ghost"
@@ -156,6 +286,40 @@ export function ContextMenu({
               >
                 Add Signal
               </Button>
+              {onAddRelationship && (
+                <>
+                  <p className="px-4 pt-1 text-xs text-gray-400">Add relationship</p>
+                  {RELATIONSHIP_TYPES.map((relationshipType) => (
+                    <Button
+                      key={relationshipType}
+                      variant="ghost"
+                      className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                      onClick={() => onAddRelationship(relationshipType)}
+                    >
+                      {RELATIONSHIP_LABELS[relationshipType]}…
+                    </Button>
+                  ))}
+                </>
+              )}
+              {onDuplicate && (
+                <Button
+                  variant="ghost"
+                  className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                  onClick={onDuplicate}
+                >
+                  Duplicate Node
+                </Button>
+              )}
+              {onTogglePinned && (
+                <Button
+                  variant="ghost"
+                  className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                  onClick={onTogglePinned}
+                >
+                  {pinned ? "Unpin Position" : "Pin Position"}
+                </Button>
+              )}
+              {renderCategoryOptions()}
               <Button
                 variant="ghost"
                 className="justify-start text-red-400 hover:bg-gray-700 hover:text-red-300"
@@ -166,7 +330,7 @@ export function ContextMenu({
             </>
           )}
 
-          {type === "signal" && (
+          {type === "signal" && selectionCount <= 1 && (
             <>
               <Button
                 variant="ghost"
@@ -177,6 +341,36 @@ export function ContextMenu({
               >
                 Rename Signal
               </Button>
+              {onEditDetails && (
+                <Button
+                  variant="ghost"
+                  className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                  onClick={onEditDetails}
+                >
+                  Edit Details
+                </Button>
+              )}
+              {onDuplicate && (
+                <Button
+                  variant="ghost"
+                  className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                  onClick={onDuplicate}
+                >
+                  Duplicate Signal
+                </Button>
+              )}
+              {onUnlink &&
+                linkedNodes.length > 1 &&
+                linkedNodes.map((node) => (
+                  <Button
+                    key={node.id}
+                    variant="ghost"
+                    className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                    onClick={() => onUnlink(node.id)}
+                  >
+                    Unlink from {node.text}
+                  </Button>
+                ))}
               <Button
                 variant="ghost"
                 className="justify-start text-red-400 hover:bg-gray-700 hover:text-red-300"
@@ -186,6 +380,47 @@ export function ContextMenu({
               </Button>
             </>
           )}
+
+          {type === "relationship" && (
+            <>
+              <Button
+                variant="ghost"
+                className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                onClick={() => {
+                  setIsRenaming(true)
+                }}
+              >
+                Edit Label
+              </Button>
+              {onChangeRelationshipType &&
+                RELATIONSHIP_TYPES.filter((other) => other !== relationshipType).map((other) => (
+                  <Button
+                    key={other}
+                    variant="ghost"
+                    className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                    onClick={() => onChangeRelationshipType(other)}
+                  >
+                    Change to {RELATIONSHIP_LABELS[other]}
+                  </Button>
+                ))}
+              {onReverseRelationship && relationshipType === "enables" && (
+                <Button
+                  variant="ghost"
+                  className="justify-start text-white hover:bg-gray-700 hover:text-white"
+                  onClick={onReverseRelationship}
+                >
+                  Reverse Direction
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                className="justify-start text-red-400 hover:bg-gray-700 hover:text-red-300"
+                onClick={onDelete}
+              >
+                Delete Relationship
+              </Button>
+            </>
+          )}
         </div>
       )}
     </div>
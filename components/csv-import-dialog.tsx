@@ -0,0 +1,226 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  CSV_FIELDS,
+  CSV_FIELD_LABELS,
+  guessCsvMapping,
+  hasCsvImportChanges,
+  planCsvImport,
+  type CsvField,
+  type CsvImportPlan,
+  type CsvMapping,
+} from "@/lib/utils/map-csv"
+import type { NodeMapGraph } from "@/lib/types/node-types"
+
+// Select value for a field that isn't imported
+const SKIP_COLUMN = "skip"
+
+const FIELD_HINTS: Partial<Record<CsvField, string>> = {
+  id: "Matches existing signals; otherwise they're matched by text",
+  nodes: 'Node names, separated by semicolons; quote names with one, e.g. "R&D; Labs"',
+  x: "Leave X and Y empty to place signals automatically",
+  sources: "URLs, separated by semicolons",
+  observedAt: "YYYY-MM-DD",
+  confidence: "1 (weak) to 5 (very strong)",
+  tags: "Separated by semicolons",
+}
+
+interface CsvImportDialogProps {
+  // Parsed file, header row first; null while no import is in progress
+  file: { name: string; rows: string[][] } | null
+  graph: NodeMapGraph
+  onClose: () => void
+  onImport: (plan: CsvImportPlan) => void
+}
+
+// Two steps: match the file's columns to signal fields, then review what would be added and updated
+export function CsvImportDialog({ file, graph, onClose, onImport }: CsvImportDialogProps) {
+  const [step, setStep] = useState<"mapping" | "preview">("mapping")
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping([]))
+
+  useEffect(() => {
+    if (file) {
+      setStep("mapping")
+      setMapping(guessCsvMapping(file.rows[0]))
+    }
+  }, [file])
+
+  const plan = useMemo(
+    () => (file && step === "preview" ? planCsvImport(graph, file.rows, mapping) : null),
+    [file, step, graph, mapping],
+  )
+
+  const headers = file?.rows[0] ?? []
+  const sample = file?.rows[1] ?? []
+  const nodeNames = new Map([...graph.nodes, ...(plan?.addedNodes ?? [])].map((node) => [node.id, node.text]))
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-gray-900 border-gray-700 text-white max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {file?.name} · {Math.max((file?.rows.length ?? 1) - 1, 0)} rows
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "mapping" && (
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto pr-1">
+            <p className="text-sm text-gray-400">Choose the column for each field. Each row is one signal.</p>
+            {CSV_FIELDS.map((field) => {
+              const column = mapping[field]
+              return (
+                <div key={field} className="grid grid-cols-[9rem_1fr] items-start gap-3">
+                  <Label htmlFor={`csv-${field}`} className="pt-2">
+                    {CSV_FIELD_LABELS[field]}
+                    {field === "signal" && <span className="text-red-400"> *</span>}
+                  </Label>
+                  <div className="space-y-1">
+                    <Select
+                      value={column === null ? SKIP_COLUMN : column.toString()}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({ ...prev, [field]: value === SKIP_COLUMN ? null : Number(value) }))
+                      }
+                    >
+                      <SelectTrigger id={`csv-${field}`} className="bg-white text-black">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_COLUMN}>Don&apos;t import</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={index.toString()}>
+                            {header.trim() || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="truncate text-xs text-gray-400">
+                      {column !== null && sample[column] ? `e.g. ${sample[column]}` : FIELD_HINTS[field]}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {plan && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1 text-sm">
+            <p className="text-gray-300">
+              {plan.addedSignals.length} signals and {plan.addedNodes.length} nodes to add ·{" "}
+              {plan.updatedSignals.length} signals to update · {plan.unchangedCount} unchanged
+              {plan.errors.length > 0 && ` · ${plan.errors.length} rows skipped`}
+            </p>
+
+            {plan.addedNodes.length > 0 && (
+              <PreviewList title="New nodes, placed below the map">
+                {plan.addedNodes.map((node) => (
+                  <li key={node.id}>{node.text}</li>
+                ))}
+              </PreviewList>
+            )}
+
+            {plan.addedSignals.length > 0 && (
+              <PreviewList title="New signals">
+                {plan.addedSignals.map((signal) => (
+                  <li key={signal.id}>
+                    {signal.text}
+                    <span className="text-gray-400">
+                      {" "}
+                      · {signal.nodeIds.map((nodeId) => nodeNames.get(nodeId)).join(", ")}
+                    </span>
+                  </li>
+                ))}
+              </PreviewList>
+            )}
+
+            {plan.updatedSignals.length > 0 && (
+              <PreviewList title="Updated signals">
+                {plan.updatedSignals.map(({ after, changes }) => (
+                  <li key={after.id}>
+                    {after.text}
+                    <span className="text-gray-400"> · {changes.join(", ")}</span>
+                  </li>
+                ))}
+              </PreviewList>
+            )}
+
+            {plan.errors.length > 0 && (
+              <PreviewList title="Skipped rows">
+                {plan.errors.map(({ row, message }) => (
+                  <li key={row} className="text-red-400">
+                    Row {row}: {message}
+                  </li>
+                ))}
+              </PreviewList>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" ? (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+                onClick={onClose}
+              >
+                Cancel
+              </Button>
+              <Button
+                className="bg-blue-600 text-white hover:bg-blue-500"
+                onClick={() => setStep("preview")}
+                disabled={mapping.signal === null}
+                title={mapping.signal === null ? "Choose the column with the signal text" : undefined}
+              >
+                Preview
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+                onClick={() => setStep("mapping")}
+              >
+                Back
+              </Button>
+              <Button
+                className="bg-blue-600 text-white hover:bg-blue-500"
+                onClick={() => plan && onImport(plan)}
+                disabled={!plan || !hasCsvImportChanges(plan)}
+              >
+                Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function PreviewList({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="mb-1 text-xs font-semibold uppercase text-gray-400">{title}</p>
+      <ul className="space-y-0.5 rounded-md border border-gray-800 p-2">{children}</ul>
+    </div>
+  )
+}
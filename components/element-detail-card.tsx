@@ -0,0 +1,160 @@
+"use client"
+
+import { useRef } from "react"
+import { X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CONFIDENCE_LABELS, MAX_CONFIDENCE } from "@/lib/schema/node-map"
+import type { NodeData, SignalData } from "@/lib/types/node-types"
+
+// A node with the signals linked to it, or a signal with the nodes it links to
+export type DetailTarget =
+  | { type: "node"; node: NodeData; signals: SignalData[] }
+  | { type: "signal"; signal: SignalData; nodes: NodeData[] }
+
+interface ElementDetailCardProps {
+  target: DetailTarget
+  // Screen-space rectangle of the element the card belongs to
+  anchor: DOMRect
+  onClose: () => void
+  onMouseEnter?: () => void
+  onMouseLeave?: () => void
+}
+
+const CARD_WIDTH = 288
+const CARD_GAP = 12
+
+export function ElementDetailCard({ target, anchor, onClose, onMouseEnter, onMouseLeave }: ElementDetailCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null)
+
+  // Prefer the right of the element, flip to the left near the screen edge and keep it on screen vertically
+  const calculatePosition = () => {
+    const cardHeight = cardRef.current?.offsetHeight || 200
+    let left = anchor.right + CARD_GAP
+    if (left + CARD_WIDTH > window.innerWidth) {
+      left = Math.max(CARD_GAP, anchor.left - CARD_WIDTH - CARD_GAP)
+    }
+    const top = Math.min(Math.max(CARD_GAP, anchor.top), window.innerHeight - cardHeight - CARD_GAP)
+    return { left, top, width: CARD_WIDTH }
+  }
+
+  return (
+    <Card
+      ref={cardRef}
+      className="fixed z-50 bg-gray-900/95 border-gray-700 text-white shadow-lg"
+      style={calculatePosition()}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <CardHeader className="p-4 pb-2 pr-10">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-2 top-2 h-7 w-7 text-gray-400 hover:bg-gray-800 hover:text-white"
+          onClick={onClose}
+          aria-label="Close details"
+        >
+          <X />
+        </Button>
+        <CardTitle className="text-base">{target.type === "node" ? target.node.text : target.signal.text}</CardTitle>
+        <CardDescription className="text-gray-400">
+          {target.type === "node" ? "Technology" : `Signal · ${target.nodes.map((node) => node.text).join(", ")}`}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-0 space-y-3 text-sm">
+        {target.type === "node" ? <NodeDetails signals={target.signals} /> : <SignalDetails signal={target.signal} />}
+      </CardContent>
+    </Card>
+  )
+}
+
+function NodeDetails({ signals }: { signals: SignalData[] }) {
+  if (signals.length === 0) {
+    return <p className="text-gray-400">No signals recorded yet.</p>
+  }
+
+  return (
+    <div>
+      <p className="text-gray-400 mb-1">
+        {signals.length} {signals.length === 1 ? "signal" : "signals"}
+      </p>
+      <ul className="list-disc pl-4 space-y-0.5 text-[#A4A1FF]">
+        {signals.map((signal) => (
+          <li key={signal.id}>{signal.text}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+// Only http(s) sources become links; maps saved before the schema checked the scheme may hold others
+function isWebLink(source: string) {
+  try {
+    return ["http:", "https:"].includes(new URL(source).protocol)
+  } catch {
+    return false
+  }
+}
+
+function SignalDetails({ signal }: { signal: SignalData }) {
+  const hasDetails =
+    signal.description || signal.sources?.length || signal.tags?.length || signal.observedAt || signal.confidence
+
+  if (!hasDetails) {
+    return <p className="text-gray-400">No further details recorded yet.</p>
+  }
+
+  return (
+    <>
+      {signal.description && <p className="whitespace-pre-line text-gray-200">{signal.description}</p>}
+
+      {(signal.observedAt || signal.confidence) && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+          {signal.observedAt && <span>First observed {signal.observedAt}</span>}
+          {signal.confidence && (
+            <span>
+              Confidence {signal.confidence}/{MAX_CONFIDENCE} · {CONFIDENCE_LABELS[signal.confidence]}
+            </span>
+          )}
+        </div>
+      )}
+
+      {signal.sources && signal.sources.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-400 mb-1">Sources</p>
+          <ul className="space-y-0.5">
+            {signal.sources.map((source) => (
+              <li key={source} className="truncate">
+                {isWebLink(source) ? (
+                  <a
+                    href={source}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-300 hover:text-blue-200 underline underline-offset-2"
+                  >
+                    {source.replace(/^https?:\/\//, "")}
+                  </a>
+                ) : (
+                  source
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {signal.tags && signal.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {signal.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-xs">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
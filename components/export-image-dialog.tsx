@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { PNG_SCALES, getPngSize, type PngScale } from "@/lib/utils/image-export"
+import type { BoundingBox } from "@/lib/types/node-types"
+
+export type ImageFormat = "svg" | "png"
+
+export interface ImageExportOptions {
+  format: ImageFormat
+  scale: PngScale
+  background: boolean
+}
+
+interface ExportImageDialogProps {
+  open: boolean
+  // Format picked when the dialog opens
+  format: ImageFormat
+  // Extent of the map, which the export always covers in full
+  bounds: BoundingBox
+  isExporting: boolean
+  onClose: () => void
+  onExport: (options: ImageExportOptions) => void
+}
+
+export function ExportImageDialog({ open, format, bounds, isExporting, onClose, onExport }: ExportImageDialogProps) {
+  const [options, setOptions] = useState<ImageExportOptions>({ format, scale: 2, background: true })
+
+  useEffect(() => {
+    if (open) {
+      setOptions((prev) => ({ ...prev, format }))
+    }
+  }, [open, format])
+
+  const size =
+    options.format === "png"
+      ? getPngSize(bounds.width, bounds.height, options.scale)
+      : { width: Math.round(bounds.width), height: Math.round(bounds.height) }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Export Image</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            The whole map as it rests, whatever part of it is in view.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="export-format">Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => setOptions((prev) => ({ ...prev, format: value as ImageFormat }))}
+            >
+              <SelectTrigger id="export-format" className="bg-white text-black">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="svg">SVG (scalable, for editing)</SelectItem>
+                <SelectItem value="png">PNG (for slides and documents)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {options.format === "png" && (
+            <div className="space-y-1">
+              <Label htmlFor="export-scale">Resolution</Label>
+              <Select
+                value={options.scale.toString()}
+                onValueChange={(value) => setOptions((prev) => ({ ...prev, scale: Number(value) as PngScale }))}
+              >
+                <SelectTrigger id="export-scale" className="bg-white text-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PNG_SCALES.map((scale) => (
+                    <SelectItem key={scale} value={scale.toString()}>
+                      {scale}x
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="export-background"
+              checked={options.background}
+              onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, background: checked === true }))}
+              className="border-gray-500"
+            />
+            <Label htmlFor="export-background">Starry background</Label>
+          </div>
+          {!options.background && <p className="text-xs text-gray-400">The background will be transparent.</p>}
+
+          <p className="text-sm text-gray-400">
+            {size.width} × {size.height} px
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+          <Button
+            className="bg-blue-600 text-white hover:bg-blue-500"
+            onClick={() => onExport(options)}
+            disabled={isExporting}
+          >
+            {isExporting ? "Exporting…" : `Export ${options.format.toUpperCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
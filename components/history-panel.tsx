@@ -0,0 +1,204 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { describeMapChange, diffNodeMaps, type MapChange } from "@/lib/utils/map-diff"
+import type { MapRevisionSummary, NodeMapDocument, NodeMapGraph } from "@/lib/types/node-types"
+
+interface HistoryPanelProps {
+  slug: string
+  open: boolean
+  // Revision the editor is at; marks the matching entry and reloads the list when it changes
+  currentRevision: string | null
+  onClose: () => void
+  // Resolves to false when the save did not go through
+  onSaveVersion: (message: string) => Promise<boolean>
+  onRestore: (id: string) => Promise<void>
+}
+
+function formatSavedAt(savedAt: string) {
+  return new Date(savedAt).toLocaleString()
+}
+
+export function HistoryPanel({ slug, open, currentRevision, onClose, onSaveVersion, onRestore }: HistoryPanelProps) {
+  const [revisions, setRevisions] = useState<MapRevisionSummary[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  // Up to two revisions picked for comparison
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [changes, setChanges] = useState<MapChange[] | null>(null)
+
+  // Snapshots never change once written, so each is fetched at most once
+  const snapshotCache = useRef<Map<string, NodeMapGraph>>(new Map())
+
+  useEffect(() => {
+    if (!open) return
+
+    const controller = new AbortController()
+    fetch(`/api/maps/${slug}/history`, { cache: "no-store", signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) throw new Error("Failed to load revisions")
+        const { revisions }: { revisions: MapRevisionSummary[] } = await response.json()
+        setRevisions(revisions)
+        setError(null)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        console.error("Failed to load revision history:", err)
+        setError("Failed to load the revision history")
+      })
+
+    return () => {
+      controller.abort()
+    }
+  }, [slug, open, currentRevision])
+
+  const loadSnapshot = async (id: string): Promise<NodeMapGraph> => {
+    const cached = snapshotCache.current.get(id)
+    if (cached) return cached
+
+    const response = await fetch(`/api/maps/${slug}/history/${id}`)
+    if (!response.ok) throw new Error(`Failed to load revision ${id}`)
+    const { snapshot }: { snapshot: { document: NodeMapDocument } } = await response.json()
+    snapshotCache.current.set(id, snapshot.document)
+    return snapshot.document
+  }
+
+  // Diff the two picked revisions, older to newer (the list is newest first)
+  useEffect(() => {
+    if (compareIds.length !== 2) {
+      setChanges(null)
+      return
+    }
+
+    let cancelled = false
+    const [newerId, olderId] = [...compareIds].sort().reverse()
+    Promise.all([loadSnapshot(olderId), loadSnapshot(newerId)])
+      .then(([older, newer]) => {
+        if (!cancelled) setChanges(diffNodeMaps(older, newer))
+      })
+      .catch((err) => {
+        console.error("Failed to compare revisions:", err)
+        if (!cancelled) setError("Failed to compare the selected revisions")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [compareIds])
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev.slice(-1), id]))
+  }
+
+  const handleSaveVersion = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsBusy(true)
+    if (await onSaveVersion(message.trim())) {
+      setMessage("")
+    }
+    setIsBusy(false)
+  }
+
+  const handleRestore = async (id: string) => {
+    setIsBusy(true)
+    await onRestore(id)
+    setIsBusy(false)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={(next) => !next && onClose()}>
+      <SheetContent className="bg-gray-900 border-gray-700 text-white overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-white">Revision History</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Every save is kept. Tick two revisions to compare them.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSaveVersion} className="mt-6 space-y-1">
+          <Label htmlFor="commit-message">Save current map</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="commit-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="bg-white text-black"
+              placeholder="Optional message, e.g. Added Q3 signals"
+              maxLength={200}
+            />
+            <Button type="submit" disabled={isBusy} className="bg-blue-600 text-white hover:bg-blue-500">
+              Save
+            </Button>
+          </div>
+        </form>
+
+        {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+        {changes && (
+          <div className="mt-4 rounded-md border border-gray-700 p-3 text-sm">
+            <p className="text-xs text-gray-400 mb-2">Changes from the older to the newer revision</p>
+            {changes.length === 0 ? (
+              <p className="text-gray-400">No differences.</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {changes.map((change) => (
+                  <li key={`${change.element}:${change.kind}:${change.id}`}>{describeMapChange(change)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <ul className="mt-4 divide-y divide-gray-800 border border-gray-800 rounded-md">
+          {revisions.length === 0 && !error && (
+            <li className="p-3 text-sm text-gray-400">No revisions yet. They are recorded from the next save.</li>
+          )}
+          {revisions.map((revision) => {
+            const isCurrent = revision.revision === currentRevision
+
+            return (
+              <li key={revision.id} className="flex items-start gap-3 p-3">
+                <Checkbox
+                  checked={compareIds.includes(revision.id)}
+                  onCheckedChange={() => toggleCompare(revision.id)}
+                  className="mt-1 border-gray-500"
+                  aria-label="Compare this revision"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold">
+                    {formatSavedAt(revision.savedAt)}
+                    {isCurrent && <span className="ml-2 text-xs font-normal text-green-400">current</span>}
+                  </p>
+                  <p className="text-sm text-gray-300 truncate">{revision.message || "No message"}</p>
+                  <p className="text-xs text-gray-500">
+                    {revision.nodeCount} nodes · {revision.signalCount} signals
+                  </p>
+                </div>
+                {!isCurrent && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-gray-300 hover:bg-gray-800 hover:text-white"
+                    disabled={isBusy}
+                    onClick={() => handleRestore(revision.id)}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  )
+}
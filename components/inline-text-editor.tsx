@@ -0,0 +1,92 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef } from "react"
+
+interface InlineTextEditorProps {
+  value: string
+  // Signals may span several lines (Shift+Enter); nodes are a single line
+  multiline: boolean
+  // Screen position (relative to the canvas) of the text's anchor: its center, or the first line's center
+  left: number
+  top: number
+  width: number
+  fontSize: number
+  fontWeight?: "normal" | "bold"
+  color: string
+  onChange: (value: string) => void
+  onCommit: () => void
+  onCancel: () => void
+}
+
+// Text box overlaid on an SVG label so it can be edited in place
+export function InlineTextEditor({
+  value,
+  multiline,
+  left,
+  top,
+  width,
+  fontSize,
+  fontWeight = "normal",
+  color,
+  onChange,
+  onCommit,
+  onCancel,
+}: InlineTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  // Enter and Escape end the edit, which also blurs the field; the blur must not finish it a second time
+  const finishedRef = useRef(false)
+
+  const finish = (action: () => void) => {
+    if (finishedRef.current) return
+    finishedRef.current = true
+    action()
+  }
+
+  useEffect(() => {
+    textareaRef.current?.focus()
+    textareaRef.current?.select()
+  }, [])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep editor shortcuts (delete, nudge, undo...) away from the canvas while typing
+    e.stopPropagation()
+
+    if (e.key === "Enter" && !(multiline && e.shiftKey)) {
+      e.preventDefault()
+      finish(onCommit)
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      finish(onCancel)
+    }
+  }
+
+  const lineHeight = fontSize * (multiline ? 4 / 3 : 1.2)
+  const rows = Math.max(1, value.split("\n").length)
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      onChange={(e) => onChange(multiline ? e.target.value : e.target.value.replace(/\n/g, " "))}
+      onKeyDown={handleKeyDown}
+      onBlur={() => finish(onCommit)}
+      onMouseDown={(e) => e.stopPropagation()}
+      rows={rows}
+      spellCheck={false}
+      className="absolute z-20 resize-none overflow-hidden rounded-sm border border-blue-500 bg-gray-900/90 p-0 text-center outline-none"
+      style={{
+        left,
+        top: top - lineHeight / 2,
+        width,
+        transform: "translateX(-50%)",
+        fontSize,
+        fontWeight,
+        lineHeight: `${lineHeight}px`,
+        color,
+        fontFamily: "sans-serif",
+      }}
+    />
+  )
+}
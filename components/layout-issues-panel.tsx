@@ -0,0 +1,55 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { LayoutIssue } from "@/lib/utils/layout-issues"
+
+interface LayoutIssuesPanelProps {
+  issues: LayoutIssue[]
+  // Show the issue on the canvas
+  onFocus: (issue: LayoutIssue) => void
+}
+
+// Collapsible list of overlapping or crossed labels, shown in the corner of the canvas while there are any
+export function LayoutIssuesPanel({ issues, onFocus }: LayoutIssuesPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (issues.length === 0) return null
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-10 w-80 bg-gray-900/90 border border-gray-700 rounded-md text-sm text-white"
+    >
+      <Button
+        variant="ghost"
+        className="w-full justify-between h-9 px-3 text-red-300 hover:bg-gray-800 hover:text-red-200"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        aria-expanded={isExpanded}
+      >
+        <span className="inline-flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          Layout issues ({issues.length})
+        </span>
+        {isExpanded ? <ChevronDown /> : <ChevronUp />}
+      </Button>
+
+      {isExpanded && (
+        <ul className="max-h-64 overflow-y-auto border-t border-gray-700 py-1">
+          {issues.map((issue) => (
+            <li key={issue.key}>
+              <button
+                type="button"
+                className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-800 hover:text-white"
+                onClick={() => onFocus(issue)}
+              >
+                <span className="text-xs text-gray-400 mr-2">{issue.kind === "overlap" ? "Overlap" : "Crossing"}</span>
+                {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Copy, Pencil, Plus, Printer, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { describeSchemaIssues, slugify, type SchemaIssue } from "@/lib/schema/node-map"
+import type { MapSummary } from "@/lib/types/node-types"
+
+interface MapIndexProps {
+  maps: MapSummary[]
+  defaultSlug: string
+}
+
+type NameDialog =
+  | { mode: "create" }
+  | { mode: "duplicate"; map: MapSummary }
+  | { mode: "rename"; map: MapSummary }
+
+const dialogCopy = {
+  create: { title: "New map", submit: "Create" },
+  duplicate: { title: "Duplicate map", submit: "Duplicate" },
+  rename: { title: "Rename map", submit: "Rename" },
+}
+
+// Turn an API error body into a readable message
+async function readError(response: Response) {
+  const body: { error?: string; issues?: SchemaIssue[] } = await response.json().catch(() => ({}))
+  return body.issues ? describeSchemaIssues(body.issues) : body.error || "Request failed"
+}
+
+export function MapIndex({ maps, defaultSlug }: MapIndexProps) {
+  const router = useRouter()
+  const [dialog, setDialog] = useState<NameDialog | null>(null)
+  const [name, setName] = useState("")
+  const [slug, setSlug] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [pendingDelete, setPendingDelete] = useState<MapSummary | null>(null)
+
+  const openDialog = (next: NameDialog) => {
+    setDialog(next)
+    setError(null)
+    if (next.mode === "create") {
+      setName("")
+      setSlug("")
+    } else if (next.mode === "duplicate") {
+      setName(`${next.map.name} (copy)`)
+      setSlug("")
+    } else {
+      setName(next.map.name)
+      setSlug(next.map.slug)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!dialog) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    const [url, method] =
+      dialog.mode === "create"
+        ? ["/api/maps", "POST"]
+        : dialog.mode === "duplicate"
+          ? [`/api/maps/${dialog.map.slug}/duplicate`, "POST"]
+          : [`/api/maps/${dialog.map.slug}`, "PATCH"]
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, slug: slug.trim() || undefined }),
+      })
+      if (!response.ok) {
+        setError(await readError(response))
+        return
+      }
+      setDialog(null)
+      router.refresh()
+    } catch (err) {
+      console.error("Map request failed:", err)
+      setError("Request failed. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+
+    try {
+      const response = await fetch(`/api/maps/${pendingDelete.slug}`, { method: "DELETE" })
+      if (!response.ok) {
+        alert(await readError(response))
+        return
+      }
+      router.refresh()
+    } catch (err) {
+      console.error("Failed to delete map:", err)
+      alert("Failed to delete map")
+    } finally {
+      setPendingDelete(null)
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 text-white">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Maps</h1>
+        <Button onClick={() => openDialog({ mode: "create" })} className="bg-blue-600 text-white hover:bg-blue-700">
+          <Plus /> New map
+        </Button>
+      </div>
+
+      {maps.length === 0 ? (
+        <p className="text-gray-400">No maps yet. Create one to get started.</p>
+      ) : (
+        <ul className="divide-y divide-gray-800 border border-gray-800 rounded-md">
+          {maps.map((map) => (
+            <li key={map.slug} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <Link href={`/maps/${map.slug}`} className="font-semibold hover:text-blue-300">
+                  {map.name}
+                </Link>
+                <p className="text-sm text-gray-400 truncate">
+                  /{map.slug} · {map.nodeCount} nodes · {map.signalCount} signals · updated{" "}
+                  {new Date(map.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 shrink-0">
+                <Button asChild variant="ghost" size="sm" className="text-gray-300 hover:bg-gray-800 hover:text-white">
+                  <Link href={`/maps/${map.slug}/edit`}>Edit</Link>
+                </Button>
+                <Button
+                  asChild
+                  variant="ghost"
+                  size="icon"
+                  className="text-gray-300 hover:bg-gray-800 hover:text-white"
+                  title="Print handout"
+                >
+                  <Link href={`/maps/${map.slug}/print`}>
+                    <Printer />
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-gray-300 hover:bg-gray-800 hover:text-white"
+                  onClick={() => openDialog({ mode: "rename", map })}
+                  title="Rename"
+                >
+                  <Pencil />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-gray-300 hover:bg-gray-800 hover:text-white"
+                  onClick={() => openDialog({ mode: "duplicate", map })}
+                  title="Duplicate"
+                >
+                  <Copy />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-red-400 hover:bg-gray-800 hover:text-red-300"
+                  onClick={() => setPendingDelete(map)}
+                  disabled={map.slug === defaultSlug}
+                  title={map.slug === defaultSlug ? "The default map cannot be deleted" : "Delete"}
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="bg-gray-900 border-gray-700 text-white">
+          {dialog && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{dialogCopy[dialog.mode].title}</DialogTitle>
+                {dialog.mode !== "create" && (
+                  <DialogDescription className="text-gray-400">{dialog.map.name}</DialogDescription>
+                )}
+              </DialogHeader>
+
+              <div className="space-y-1">
+                <Label htmlFor="map-name">Name</Label>
+                <Input
+                  id="map-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoFocus
+                  className="bg-white text-black"
+                  placeholder="e.g. Tech Trends 2025"
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="map-slug">URL slug</Label>
+                <Input
+                  id="map-slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                  className="bg-white text-black"
+                  placeholder={slugify(name) || "generated from the name"}
+                  disabled={dialog.mode === "rename" && dialog.map.slug === defaultSlug}
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400 whitespace-pre-line">{error}</p>}
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+                  onClick={() => setDialog(null)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting} className="bg-blue-600 text-white hover:bg-blue-500">
+                  {dialogCopy[dialog.mode].submit}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="bg-gray-900 border-gray-700 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{pendingDelete?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-400">
+              The map file will be removed from the workspace. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 text-white hover:bg-red-500">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
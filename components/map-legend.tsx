@@ -0,0 +1,62 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp, Palette, Pencil } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { CategoryData } from "@/lib/types/node-types"
+
+interface MapLegendProps {
+  categories: CategoryData[]
+  // Given in the editor, which links the legend to the category palette
+  onEdit?: () => void
+}
+
+// Collapsible key to the category colors, shown below the search box while the map has categories
+export function MapLegend({ categories, onEdit }: MapLegendProps) {
+  const [isExpanded, setIsExpanded] = useState(true)
+
+  if (categories.length === 0) return null
+
+  return (
+    <div
+      className="absolute top-14 right-2 z-10 w-56 bg-gray-900/90 border border-gray-700 rounded-md text-sm text-white"
+    >
+      <div className="flex items-center">
+        <Button
+          variant="ghost"
+          className="flex-1 justify-between h-9 px-3 text-gray-200 hover:bg-gray-800 hover:text-white"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          <span className="inline-flex items-center gap-2">
+            <Palette className="h-4 w-4" />
+            Legend
+          </span>
+          {isExpanded ? <ChevronUp /> : <ChevronDown />}
+        </Button>
+        {onEdit && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 text-gray-300 hover:bg-gray-800 hover:text-white"
+            onClick={onEdit}
+            title="Edit categories"
+          >
+            <Pencil />
+          </Button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <ul className="max-h-64 overflow-y-auto border-t border-gray-700 px-3 py-2 space-y-1">
+          {categories.map((category) => (
+            <li key={category.id} className="flex items-center gap-2 text-gray-200">
+              <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+              {category.name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
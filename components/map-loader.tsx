@@ -0,0 +1,41 @@
+"use client"
+
+import type React from "react"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { MapSkeleton } from "@/components/map-skeleton"
+import { useMapDocument } from "@/hooks/use-map-document"
+import type { NodeMapDocument } from "@/lib/types/node-types"
+
+interface MapLoaderProps {
+  slug: string
+  withToolbar?: boolean
+  children: (document: NodeMapDocument, revision: string | null) => React.ReactNode
+}
+
+// Fetch a map and render it once loaded, with a skeleton meanwhile and a retry on failure
+export function MapLoader({ slug, withToolbar, children }: MapLoaderProps) {
+  const { state, reload } = useMapDocument(slug)
+
+  if (state.status === "loading") {
+    return <MapSkeleton withToolbar={withToolbar} />
+  }
+
+  if (state.status === "error") {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen space-y-4 text-white">
+        <p>{state.message}</p>
+        {state.notFound ? (
+          <Link href="/maps" className="text-blue-300 hover:text-blue-200">
+            Browse all maps
+          </Link>
+        ) : (
+          <Button onClick={reload}>Try again</Button>
+        )}
+      </div>
+    )
+  }
+
+  return <>{children(state.document, state.revision)}</>
+}
@@ -0,0 +1,143 @@
+import Link from "next/link"
+import { PrintButton } from "@/components/print-button"
+import { STARRY_SKY_URL, StaticMap } from "@/components/node-map/static-map"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CONFIDENCE_LABELS, MAX_CONFIDENCE } from "@/lib/schema/node-map"
+import { calculateContentBounds } from "@/lib/utils/geometry"
+import { getNodeSignals } from "@/lib/utils/signal-links"
+import type { CategoryData, NodeMapDocument, SignalData } from "@/lib/types/node-types"
+
+// Fallback extent of an empty map
+const EMPTY_MAP_SIZE = { width: 800, height: 450 }
+
+interface MapPrintoutProps {
+  slug: string
+  document: NodeMapDocument
+  // When the map was last saved
+  updatedAt: Date
+}
+
+// Handout of a map: the whole map scaled to the first page, then a table of every node with its signals and
+// their metadata. Static markup only, so printing never catches an animation mid-way.
+export function MapPrintout({ slug, document, updatedAt }: MapPrintoutProps) {
+  const bounds = calculateContentBounds(document, EMPTY_MAP_SIZE.width, EMPTY_MAP_SIZE.height)
+  const categories = new Map(document.categories.map((category) => [category.id, category]))
+  const nodes = [...document.nodes].sort((a, b) => a.text.localeCompare(b.text))
+
+  return (
+    <main className="handout-page min-h-screen bg-white text-black p-8 print:p-0">
+      <div className="mb-6 flex items-center justify-between print:hidden">
+        <Link href={`/maps/${slug}`} className="text-sm text-gray-600 hover:text-black">
+          ← Back to map
+        </Link>
+        <PrintButton />
+      </div>
+
+      <section className="break-after-page">
+        <h1 className="text-2xl font-bold">{document.name ?? slug}</h1>
+        <p className="text-sm text-gray-600">
+          {document.nodes.length} nodes · {document.signals.length} signals · last saved{" "}
+          {updatedAt.toLocaleDateString(undefined, { dateStyle: "long" })}
+        </p>
+
+        <StaticMap
+          graph={document}
+          bounds={bounds}
+          backgroundHref={STARRY_SKY_URL}
+          className="print-exact mt-4 h-auto max-h-[75vh] w-full print:max-h-[160mm]"
+        />
+
+        {document.categories.length > 0 && (
+          <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            {document.categories.map((category) => (
+              <li key={category.id} className="flex items-center gap-2">
+                <CategorySwatch category={category} />
+                {category.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="mt-10 print:mt-0">
+        <h2 className="mb-3 text-xl font-bold">Signal appendix</h2>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead className="text-black">Node</TableHead>
+              <TableHead className="text-black">Signal</TableHead>
+              <TableHead className="text-black">Description</TableHead>
+              <TableHead className="text-black">Confidence</TableHead>
+              <TableHead className="text-black">First observed</TableHead>
+              <TableHead className="text-black">Sources</TableHead>
+              <TableHead className="text-black">Tags</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {nodes.map((node) => {
+              const signals = getNodeSignals(document.signals, node.id)
+              const category = node.categoryId ? categories.get(node.categoryId) : undefined
+              const nodeCell = (
+                <TableCell rowSpan={Math.max(signals.length, 1)} className="align-top font-semibold">
+                  {node.text}
+                  {category && (
+                    <span className="mt-1 flex items-center gap-1 font-normal text-gray-600">
+                      <CategorySwatch category={category} />
+                      {category.name}
+                    </span>
+                  )}
+                </TableCell>
+              )
+
+              if (signals.length === 0) {
+                return (
+                  <TableRow key={node.id} className="break-inside-avoid hover:bg-transparent">
+                    {nodeCell}
+                    <TableCell colSpan={6} className="text-gray-500">
+                      No signals recorded yet.
+                    </TableCell>
+                  </TableRow>
+                )
+              }
+
+              return signals.map((signal, index) => (
+                <TableRow key={`${node.id}-${signal.id}`} className="break-inside-avoid hover:bg-transparent">
+                  {index === 0 && nodeCell}
+                  <SignalCells signal={signal} />
+                </TableRow>
+              ))
+            })}
+          </TableBody>
+        </Table>
+      </section>
+    </main>
+  )
+}
+
+function CategorySwatch({ category }: { category: CategoryData }) {
+  return (
+    <span
+      className="print-exact inline-block h-3 w-3 shrink-0 rounded-full border border-gray-400"
+      style={{ backgroundColor: category.color }}
+    />
+  )
+}
+
+function SignalCells({ signal }: { signal: SignalData }) {
+  return (
+    <>
+      <TableCell className="align-top">{signal.text}</TableCell>
+      <TableCell className="align-top whitespace-pre-line">{signal.description}</TableCell>
+      <TableCell className="align-top whitespace-nowrap">
+        {signal.confidence && `${signal.confidence}/${MAX_CONFIDENCE} · ${CONFIDENCE_LABELS[signal.confidence]}`}
+      </TableCell>
+      <TableCell className="align-top whitespace-nowrap">{signal.observedAt}</TableCell>
+      <TableCell className="align-top break-all">
+        {signal.sources?.map((source) => (
+          <p key={source}>{source}</p>
+        ))}
+      </TableCell>
+      <TableCell className="align-top">{signal.tags?.join(", ")}</TableCell>
+    </>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef } from "react"
+import { ChevronDown, ChevronUp, Filter, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { CategoryData } from "@/lib/types/node-types"
+
+interface MapSearchProps {
+  query: string
+  onQueryChange: (query: string) => void
+  tags: string[]
+  availableTags: string[]
+  onToggleTag: (tag: string) => void
+  categories: CategoryData[]
+  categoryIds: string[]
+  onToggleCategory: (id: string) => void
+  matchCount: number
+  // Position of the match last cycled to, or -1
+  activeIndex: number
+  onNext: () => void
+  onPrevious: () => void
+  onClear: () => void
+}
+
+// Search box floating over the map. Enter steps to the next match, Shift+Enter to the previous one, Escape
+// clears the search, and Ctrl+F (Cmd+F on a Mac) jumps into the box from anywhere.
+export function MapSearch({
+  query,
+  onQueryChange,
+  tags,
+  availableTags,
+  onToggleTag,
+  categories,
+  categoryIds,
+  onToggleCategory,
+  matchCount,
+  activeIndex,
+  onNext,
+  onPrevious,
+  onClear,
+}: MapSearchProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const isFiltered = tags.length > 0 || categoryIds.length > 0
+  const isActive = query.trim().length > 0 || isFiltered
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "f") {
+        e.preventDefault()
+        inputRef.current?.focus()
+        inputRef.current?.select()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault()
+      if (e.shiftKey) {
+        onPrevious()
+      } else {
+        onNext()
+      }
+    } else if (e.key === "Escape") {
+      onClear()
+      inputRef.current?.blur()
+    }
+  }
+
+  const buttonClassName = "h-8 w-8 text-gray-300 hover:bg-gray-800 hover:text-white"
+
+  return (
+    <div
+      className="absolute top-2 right-2 z-10 flex items-center space-x-1 bg-gray-900/90 border border-gray-700 rounded-md p-1"
+    >
+      <Search className="ml-1 h-4 w-4 shrink-0 text-gray-400" />
+      <Input
+        ref={inputRef}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search nodes and signals"
+        aria-label="Search nodes and signals"
+        className="h-8 w-56 border-0 bg-transparent text-white placeholder:text-gray-500 focus-visible:ring-0"
+      />
+      {isActive && (
+        <span className="min-w-[4.5rem] text-center text-xs text-gray-400">
+          {matchCount === 0
+            ? "No matches"
+            : activeIndex === -1
+              ? `${matchCount} found`
+              : `${activeIndex + 1} of ${matchCount}`}
+        </span>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className={buttonClassName}
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        title="Previous match (Shift+Enter)"
+      >
+        <ChevronUp />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={buttonClassName}
+        onClick={onNext}
+        disabled={matchCount === 0}
+        title="Next match (Enter)"
+      >
+        <ChevronDown />
+      </Button>
+      {(categories.length > 0 || availableTags.length > 0) && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`${buttonClassName} ${isFiltered ? "text-blue-300" : ""}`}
+              title={isFiltered ? "Filtered (click to change)" : "Filter by category or tag"}
+            >
+              <Filter />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto bg-gray-900 border-gray-700 text-white">
+            {categories.length > 0 && (
+              <DropdownMenuLabel className="text-xs text-gray-400">Filter by category</DropdownMenuLabel>
+            )}
+            {categories.map((category) => (
+              <DropdownMenuCheckboxItem
+                key={category.id}
+                checked={categoryIds.includes(category.id)}
+                onCheckedChange={() => onToggleCategory(category.id)}
+                // Keep the menu open to pick several
+                onSelect={(e) => e.preventDefault()}
+                className="focus:bg-gray-800 focus:text-white"
+              >
+                <span className="mr-2 h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+                {category.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+            {categories.length > 0 && availableTags.length > 0 && <DropdownMenuSeparator className="bg-gray-700" />}
+            {availableTags.length > 0 && (
+              <DropdownMenuLabel className="text-xs text-gray-400">Filter by tag</DropdownMenuLabel>
+            )}
+            {availableTags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag}
+                checked={tags.includes(tag)}
+                onCheckedChange={() => onToggleTag(tag)}
+                onSelect={(e) => e.preventDefault()}
+                className="focus:bg-gray-800 focus:text-white"
+              >
+                {tag}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+      {isActive && (
+        <Button variant="ghost" size="icon" className={buttonClassName} onClick={onClear} title="Clear search (Esc)">
+          <X />
+        </Button>
+      )}
+    </div>
+  )
+}
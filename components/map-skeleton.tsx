@@ -0,0 +1,41 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+// Rough node/signal placement so the placeholder resembles a map rather than a blank page
+const placeholders = [
+  { left: "22%", top: "28%", width: "9rem" },
+  { left: "14%", top: "16%", width: "6rem" },
+  { left: "34%", top: "14%", width: "7rem" },
+  { left: "58%", top: "40%", width: "10rem" },
+  { left: "70%", top: "26%", width: "6rem" },
+  { left: "66%", top: "58%", width: "8rem" },
+  { left: "36%", top: "66%", width: "9rem" },
+  { left: "24%", top: "78%", width: "6rem" },
+  { left: "48%", top: "82%", width: "7rem" },
+]
+
+interface MapSkeletonProps {
+  // Reserve space for the editor toolbar
+  withToolbar?: boolean
+}
+
+export function MapSkeleton({ withToolbar = false }: MapSkeletonProps) {
+  return (
+    <div className="w-full" aria-busy="true" aria-label="Loading map">
+      {withToolbar && (
+        <div className="flex justify-between mb-4">
+          <Skeleton className="h-12 w-56 bg-gray-800" />
+          <Skeleton className="h-10 w-96 bg-gray-800" />
+        </div>
+      )}
+      <div className="w-full h-screen relative">
+        {placeholders.map((placeholder, index) => (
+          <Skeleton
+            key={index}
+            className="absolute h-4 bg-gray-800"
+            style={{ left: placeholder.left, top: placeholder.top, width: placeholder.width }}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
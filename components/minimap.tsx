@@ -0,0 +1,132 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useRef } from "react"
+import { rectContainsPoint } from "@/lib/utils/geometry"
+import { calculateNodeBoundary, calculateSignalBoundary } from "@/lib/utils/text-boundary"
+import { getSignalLinks } from "@/lib/utils/signal-links"
+import { DEFAULT_NODE_COLOR, getNodeColors, getSignalColor } from "@/lib/utils/categories"
+import type { BoundingBox, NodeMapGraph, Position, Rect } from "@/lib/types/node-types"
+
+// Largest size of the overview in screen pixels; the map's aspect ratio decides the other side
+const MINIMAP_WIDTH = 200
+const MINIMAP_HEIGHT = 140
+
+interface MinimapProps {
+  graph: NodeMapGraph
+  contentBounds: BoundingBox
+  // Part of the map currently on screen, in content coordinates
+  viewportRect: Rect
+  // Pan the main view so the given content point is in the middle
+  onPan: (center: Position) => void
+}
+
+// Overview of the whole map with the visible area outlined. Clicking pans the main view there; dragging the
+// outline pans along with it.
+export function Minimap({ graph, contentBounds, viewportRect, onPan }: MinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  const scale = Math.min(MINIMAP_WIDTH / (contentBounds.width || 1), MINIMAP_HEIGHT / (contentBounds.height || 1))
+  const width = contentBounds.width * scale
+  const height = contentBounds.height * scale
+
+  // Text boundaries are measured once per edit, not on every pan
+  const shapes = useMemo(() => {
+    const nodeColors = getNodeColors(graph)
+    return {
+      nodes: graph.nodes.map((node) => ({
+        id: node.id,
+        color: nodeColors.get(node.id) ?? DEFAULT_NODE_COLOR,
+        ...calculateNodeBoundary(node.text, node.x, node.y),
+      })),
+      signals: graph.signals.map((signal) => ({
+        id: signal.id,
+        color: getSignalColor(signal, nodeColors),
+        ...calculateSignalBoundary(signal.text, signal.x, signal.y),
+      })),
+      links: getSignalLinks(graph).map(({ node, signal }) => ({
+        key: `${node.id}-${signal.id}`,
+        start: { x: node.x, y: node.y },
+        end: { x: signal.x, y: signal.y },
+      })),
+    }
+  }, [graph])
+
+  const toContent = (clientX: number, clientY: number): Position => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    return {
+      x: (clientX - (rect?.left ?? 0)) / scale + contentBounds.minX,
+      y: (clientY - (rect?.top ?? 0)) / scale + contentBounds.minY,
+    }
+  }
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+
+    // Grabbing the outline keeps the pointer where it took hold; elsewhere the view jumps to the pointer
+    const pointer = toContent(e.clientX, e.clientY)
+    const center = { x: viewportRect.x + viewportRect.width / 2, y: viewportRect.y + viewportRect.height / 2 }
+    const grabbed = rectContainsPoint(viewportRect, pointer)
+    const offset = grabbed ? { x: center.x - pointer.x, y: center.y - pointer.y } : { x: 0, y: 0 }
+    if (!grabbed) {
+      onPan(pointer)
+    }
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const next = toContent(moveEvent.clientX, moveEvent.clientY)
+      onPan({ x: next.x + offset.x, y: next.y + offset.y })
+    }
+
+    const handleMouseUp = () => {
+      document.removeEventListener("mousemove", handleMouseMove)
+      document.removeEventListener("mouseup", handleMouseUp)
+    }
+
+    document.addEventListener("mousemove", handleMouseMove)
+    document.addEventListener("mouseup", handleMouseUp)
+  }
+
+  return (
+    <div className="absolute bottom-16 right-4 z-10 bg-gray-900/80 border border-gray-700 rounded-md p-1">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className="block overflow-hidden cursor-pointer"
+        onMouseDown={handleMouseDown}
+      >
+        <title>Map overview</title>
+        <g transform={`scale(${scale}) translate(${-contentBounds.minX}, ${-contentBounds.minY})`}>
+          {shapes.links.map(({ key, start, end }) => (
+            <line
+              key={key}
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              stroke="#4B5563"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {shapes.signals.map(({ id, color, ...rect }) => (
+            <rect key={id} {...rect} fill={color} opacity={0.7} />
+          ))}
+          {shapes.nodes.map(({ id, color, ...rect }) => (
+            <rect key={id} {...rect} fill={color} />
+          ))}
+          <rect
+            {...viewportRect}
+            fill="rgba(59, 130, 246, 0.15)"
+            stroke="#3B82F6"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            style={{ cursor: "move" }}
+          />
+        </g>
+      </svg>
+    </div>
+  )
+}
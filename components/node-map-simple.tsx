@@ -1,21 +1,68 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import type React from "react"
+
+import { useEffect, useMemo, useRef, useState } from "react"
 import { ConnectionLine } from "./node-map/connection-line"
-import initialNodesData from "@/data/node-map.json"
-import type { NodeData, ViewportOffset } from "@/lib/types/node-types"
+import { RelationshipLine, RelationshipMarkers, moveRelationshipLine } from "./node-map/relationship-line"
+import type { NodeData, NodeMapGraph, Position, SignalData, Viewport } from "@/lib/types/node-types"
 import { gsap } from "gsap"
-import { calculateConnectionPoints } from "@/lib/utils/text-boundary"
-
-export default function NodeMapSimple() {
-  const [nodes] = useState<NodeData[]>(initialNodesData)
-  const [viewportOffset, setViewportOffset] = useState<ViewportOffset>({ x: 0, y: 0 })
+import { calculateConnectionPoints, calculateRelationshipPoints, getSignalLines } from "@/lib/utils/text-boundary"
+import { ZoomControls } from "@/components/zoom-controls"
+import { MapSearch } from "@/components/map-search"
+import { MapLegend } from "@/components/map-legend"
+import { ElementDetailCard, type DetailTarget } from "@/components/element-detail-card"
+import { usePanZoom } from "@/hooks/use-pan-zoom"
+import { useContentBounds } from "@/hooks/use-content-bounds"
+import { useMapSearch } from "@/hooks/use-map-search"
+import { DIMMED_OPACITY } from "@/lib/utils/search"
+import { getNodeSignals, getSignalLinks, getSignalNodes } from "@/lib/utils/signal-links"
+import { DEFAULT_NODE_COLOR, getNodeColors, getSignalColor } from "@/lib/utils/categories"
+import {
+  describeRelationship,
+  getNodeRelationships,
+  getRelationshipEnds,
+  type RelationshipEnds,
+} from "@/lib/utils/relationships"
+
+// Distance in screen pixels a pointer has to move before a press counts as a drag rather than a click
+const PAN_CLICK_TOLERANCE = 4
+
+interface NodeMapSimpleProps {
+  initialGraph: NodeMapGraph
+}
+
+export default function NodeMapSimple({ initialGraph }: NodeMapSimpleProps) {
+  const [graph] = useState<NodeMapGraph>(initialGraph)
+  const { nodes, signals } = graph
   const [svgSize, setSvgSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 })
   const svgRef = useRef<SVGSVGElement>(null)
   const contentGroupRef = useRef<SVGGElement>(null)
   const animationsRef = useRef<gsap.core.Timeline[]>([])
   const nodeRefsMap = useRef<Map<string, { x: number; y: number }>>(new Map())
   const signalRefsMap = useRef<Map<string, { x: number; y: number }>>(new Map())
+  const tweensRef = useRef<Map<string, gsap.core.Tween>>(new Map())
+  const closeTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined)
+  // Viewport set by the last fit; once the visitor zooms or pans away from it, resizing no longer refits
+  const fittedViewportRef = useRef<Viewport | null>(null)
+  // Last position of each pointer pressed on the canvas. One pointer pans; two are a pinch, which the pan/zoom
+  // hook handles.
+  const panPointersRef = useRef<Map<number, Position>>(new Map())
+  // How far the current press has moved, so the click ending a drag doesn't open or close a detail card
+  const panDistanceRef = useRef(0)
+
+  // Element whose detail card is open. Hover cards close when the pointer leaves, pinned (clicked/tapped) ones stay.
+  const [detail, setDetail] = useState<{ id: string; target: DetailTarget; anchor: DOMRect; pinned: boolean } | null>(
+    null,
+  )
+
+  const { viewport, transform, panBy, zoomIn, zoomOut, fitToBounds, centerOnBounds, centerOnPoint } =
+    usePanZoom(svgRef)
+  const { contentBounds } = useContentBounds(graph, svgSize.width, svgSize.height, viewport.x, viewport.y, viewport.scale)
+
+  const search = useMapSearch(graph, (match) => centerOnPoint(match.position))
+  const isDimmed = (id: string) => search.matchIds !== null && !search.matchIds.has(id)
+  const nodeColors = useMemo(() => getNodeColors(graph), [graph])
 
   // Update SVG size on resize and initial render
   useEffect(() => {
@@ -57,12 +104,49 @@ export default function NodeMapSimple() {
     // Initialize with starting positions
     nodes.forEach((node) => {
       nodeRefsMap.current.set(node.id, { x: node.x, y: node.y })
-
-      node.signals.forEach((signal) => {
-        signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
-      })
     })
-  }, [nodes])
+    signals.forEach((signal) => {
+      signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
+    })
+  }, [graph])
+
+  // Move a connecting line to the tracked positions of its node and signal
+  const updateLine = (node: NodeData, signal: SignalData) => {
+    const lineElement = document.getElementById(`line-${node.id}-${signal.id}`)
+    const dotElement = document.getElementById(`dot-${node.id}-${signal.id}`)
+    if (lineElement && dotElement) {
+      const { start, end } = calculateConnectionPoints(
+        node.text,
+        nodeRefsMap.current.get(node.id)?.x || node.x,
+        nodeRefsMap.current.get(node.id)?.y || node.y,
+        signal.text,
+        signalRefsMap.current.get(signal.id)?.x || signal.x,
+        signalRefsMap.current.get(signal.id)?.y || signal.y
+      )
+
+      lineElement.setAttribute("x1", start.x.toString())
+      lineElement.setAttribute("y1", start.y.toString())
+      lineElement.setAttribute("x2", end.x.toString())
+      lineElement.setAttribute("y2", end.y.toString())
+      dotElement.setAttribute("cx", end.x.toString())
+      dotElement.setAttribute("cy", end.y.toString())
+    }
+  }
+
+  // Move a relationship edge to the tracked positions of its two nodes
+  const updateRelationship = ({ relationship, source, target }: RelationshipEnds) => {
+    const sourcePos = nodeRefsMap.current.get(source.id) || source
+    const targetPos = nodeRefsMap.current.get(target.id) || target
+    const { start, end } = calculateRelationshipPoints(
+      source.text,
+      sourcePos.x,
+      sourcePos.y,
+      target.text,
+      targetPos.x,
+      targetPos.y,
+    )
+    moveRelationshipLine(relationship.id, start, end)
+  }
 
   // Start animations
   useEffect(() => {
@@ -71,6 +155,9 @@ export default function NodeMapSimple() {
     animationsRef.current.push(masterTimeline)
 
     nodes.forEach((node) => {
+      const nodeSignals = getNodeSignals(signals, node.id)
+      const nodeRelationships = getNodeRelationships(graph, node.id)
+
       // Get initial position
       const nodeInitialX = node.x
       const nodeInitialY = node.y
@@ -100,86 +187,56 @@ export default function NodeMapSimple() {
             nodeRefsMap.current.set(node.id, { x: currentX, y: currentY })
 
             // Update all connecting lines for this node
-            node.signals.forEach((signal) => {
-              const lineElement = document.getElementById(`line-${node.id}-${signal.id}`)
-              const dotElement = document.getElementById(`dot-${node.id}-${signal.id}`)
-              if (lineElement && dotElement) {
-                const { start, end } = calculateConnectionPoints(
-                  node.text,
-                  currentX,
-                  currentY,
-                  signal.text,
-                  signalRefsMap.current.get(signal.id)?.x || signal.x,
-                  signalRefsMap.current.get(signal.id)?.y || signal.y
-                )
-
-                lineElement.setAttribute("x1", start.x.toString())
-                lineElement.setAttribute("y1", start.y.toString())
-                lineElement.setAttribute("x2", end.x.toString())
-                lineElement.setAttribute("y2", end.y.toString())
-                dotElement.setAttribute("cx", end.x.toString())
-                dotElement.setAttribute("cy", end.y.toString())
-              }
+            nodeSignals.forEach((signal) => {
+              updateLine(node, signal)
             })
+            nodeRelationships.forEach(updateRelationship)
           }
         },
       })
 
       masterTimeline.add(nodeAnimation, 0)
+      tweensRef.current.set(node.id, nodeAnimation)
+    })
+
+    // Animate each signal with its own onUpdate
+    signals.forEach((signal) => {
+      const signalNodes = getSignalNodes(nodes, signal)
+      const signalInitialX = signal.x
+      const signalInitialY = signal.y
+
+      const signalOffsetX = Math.random() * 30 - 15
+      const signalOffsetY = Math.random() * 30 - 15
+      const signalDuration = 4 + Math.random() * 3
 
-      // Animate each signal with its own onUpdate
-      node.signals.forEach((signal) => {
-        const signalInitialX = signal.x
-        const signalInitialY = signal.y
-
-        const signalOffsetX = Math.random() * 30 - 15
-        const signalOffsetY = Math.random() * 30 - 15
-        const signalDuration = 4 + Math.random() * 3
-
-        const signalAnimation = gsap.to(`#${signal.id}`, {
-          x: signalInitialX + signalOffsetX,
-          y: signalInitialY + signalOffsetY,
-          duration: signalDuration,
-          ease: "sine.inOut",
-          repeat: -1,
-          yoyo: true,
-          onUpdate: () => {
-            // Get current position from GSAP
-            const signalElement = document.getElementById(signal.id)
-            if (signalElement) {
-              const matrix = new DOMMatrix(window.getComputedStyle(signalElement).transform)
-              const currentX = matrix.e || signalInitialX
-              const currentY = matrix.f || signalInitialY
-
-              // Update position in our tracking map
-              signalRefsMap.current.set(signal.id, { x: currentX, y: currentY })
-
-              // Update the connecting line
-              const lineElement = document.getElementById(`line-${node.id}-${signal.id}`)
-              const dotElement = document.getElementById(`dot-${node.id}-${signal.id}`)
-              if (lineElement && dotElement) {
-                const { start, end } = calculateConnectionPoints(
-                  node.text,
-                  nodeRefsMap.current.get(node.id)?.x || node.x,
-                  nodeRefsMap.current.get(node.id)?.y || node.y,
-                  signal.text,
-                  currentX,
-                  currentY
-                )
-
-                lineElement.setAttribute("x1", start.x.toString())
-                lineElement.setAttribute("y1", start.y.toString())
-                lineElement.setAttribute("x2", end.x.toString())
-                lineElement.setAttribute("y2", end.y.toString())
-                dotElement.setAttribute("cx", end.x.toString())
-                dotElement.setAttribute("cy", end.y.toString())
-              }
-            }
-          },
-        })
-
-        masterTimeline.add(signalAnimation, 0)
+      const signalAnimation = gsap.to(`#${signal.id}`, {
+        x: signalInitialX + signalOffsetX,
+        y: signalInitialY + signalOffsetY,
+        duration: signalDuration,
+        ease: "sine.inOut",
+        repeat: -1,
+        yoyo: true,
+        onUpdate: () => {
+          // Get current position from GSAP
+          const signalElement = document.getElementById(signal.id)
+          if (signalElement) {
+            const matrix = new DOMMatrix(window.getComputedStyle(signalElement).transform)
+            const currentX = matrix.e || signalInitialX
+            const currentY = matrix.f || signalInitialY
+
+            // Update position in our tracking map
+            signalRefsMap.current.set(signal.id, { x: currentX, y: currentY })
+
+            // Update every line to the signal's nodes
+            signalNodes.forEach((node) => {
+              updateLine(node, signal)
+            })
+          }
+        },
       })
+
+      masterTimeline.add(signalAnimation, 0)
+      tweensRef.current.set(signal.id, signalAnimation)
     })
 
     return () => {
@@ -187,50 +244,117 @@ export default function NodeMapSimple() {
         timeline.kill()
       })
       animationsRef.current = []
+      tweensRef.current.clear()
     }
-  }, [nodes])
+  }, [graph])
 
-  // Center the content on initial load
+  // Hold the element still while its detail card is open
   useEffect(() => {
-    if (nodes.length === 0) {
-      setViewportOffset({ x: 0, y: 0 })
-      return
+    if (!detail) return
+
+    const tween = tweensRef.current.get(detail.id)
+    tween?.pause()
+    return () => {
+      tween?.resume()
     }
+  }, [detail?.id])
 
-    // Calculate the bounding box of all nodes and signals
-    let minX = Number.POSITIVE_INFINITY,
-      minY = Number.POSITIVE_INFINITY,
-      maxX = Number.NEGATIVE_INFINITY,
-      maxY = Number.NEGATIVE_INFINITY
+  // The card is anchored to a screen position, so drop it when the view pans or zooms
+  useEffect(() => {
+    setDetail(null)
+  }, [viewport])
 
-    nodes.forEach((node) => {
-      minX = Math.min(minX, node.x)
-      minY = Math.min(minY, node.y)
-      maxX = Math.max(maxX, node.x)
-      maxY = Math.max(maxY, node.y)
-
-      node.signals.forEach((signal) => {
-        minX = Math.min(minX, signal.x)
-        minY = Math.min(minY, signal.y)
-        maxX = Math.max(maxX, signal.x)
-        maxY = Math.max(maxY, signal.y)
-      })
-    })
+  // Close the card with Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setDetail(null)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      clearTimeout(closeTimeoutRef.current)
+    }
+  }, [])
 
-    // Calculate center of the bounding box
-    const centerX = (minX + maxX) / 2
-    const centerY = (minY + maxY) / 2
+  const openDetail = (id: string, target: DetailTarget, pinned: boolean) => {
+    clearTimeout(closeTimeoutRef.current)
 
-    // Calculate center of the viewport
-    const viewportCenterX = svgSize.width / 2
-    const viewportCenterY = svgSize.height / 2
+    const element = document.getElementById(id)
+    if (!element) return
 
-    // Set offset to center the content
-    setViewportOffset({
-      x: viewportCenterX - centerX,
-      y: viewportCenterY - centerY,
+    setDetail((prev) => {
+      // Hovering another element must not replace a card the visitor pinned
+      if (!pinned && prev?.pinned) return prev
+      return { id, target, anchor: element.getBoundingClientRect(), pinned }
     })
-  }, [nodes, svgSize])
+  }
+
+  // Give the pointer a moment to travel from the element onto the card
+  const scheduleHoverClose = () => {
+    clearTimeout(closeTimeoutRef.current)
+    closeTimeoutRef.current = setTimeout(() => {
+      setDetail((prev) => (prev?.pinned ? prev : null))
+    }, 200)
+  }
+
+  const detailHandlers = (id: string, target: DetailTarget) => ({
+    onPointerEnter: (e: React.PointerEvent) => {
+      if (e.pointerType === "mouse") openDetail(id, target, false)
+    },
+    onPointerLeave: (e: React.PointerEvent) => {
+      if (e.pointerType === "mouse") scheduleHoverClose()
+    },
+    // Clicks and taps pin the card, which is how touch visitors open it
+    onClick: (e: React.MouseEvent) => {
+      e.stopPropagation()
+      openDetail(id, target, true)
+    },
+    style: { cursor: "pointer" },
+  })
+
+  const handlePanStart = (e: React.PointerEvent) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return
+    if (panPointersRef.current.size === 0) panDistanceRef.current = 0
+    panPointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+  }
+
+  const handlePanMove = (e: React.PointerEvent) => {
+    const last = panPointersRef.current.get(e.pointerId)
+    if (!last) return
+
+    panPointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    if (panPointersRef.current.size !== 1) return
+
+    const dx = e.clientX - last.x
+    const dy = e.clientY - last.y
+    panDistanceRef.current += Math.hypot(dx, dy)
+    panBy(dx, dy)
+  }
+
+  const handlePanEnd = (e: React.PointerEvent) => {
+    panPointersRef.current.delete(e.pointerId)
+  }
+
+  // Swallow the click that ends a drag before it reaches the elements or the canvas
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (panDistanceRef.current > PAN_CLICK_TOLERANCE) {
+      e.stopPropagation()
+      panDistanceRef.current = 0
+    }
+  }
+
+  const fitContent = () => {
+    fittedViewportRef.current = fitToBounds(contentBounds) ?? null
+  }
+
+  // Fit the content to the screen on initial load, and when the canvas is resized while the view is still fitted
+  useEffect(() => {
+    if (fittedViewportRef.current && fittedViewportRef.current !== viewport) return
+    fitContent()
+  }, [contentBounds, svgSize, fitToBounds])
 
   return (
     <div className="w-full h-screen relative live-mode">
@@ -243,84 +367,136 @@ export default function NodeMapSimple() {
       />
       <svg
         ref={svgRef}
-        className="w-full h-full bg-transparent relative"
+        className="w-full h-full bg-transparent relative cursor-grab active:cursor-grabbing"
+        style={{ touchAction: "none" }}
+        onPointerDown={handlePanStart}
+        onPointerMove={handlePanMove}
+        onPointerUp={handlePanEnd}
+        onPointerCancel={handlePanEnd}
+        onPointerLeave={handlePanEnd}
+        onClickCapture={handleClickCapture}
+        onClick={() => setDetail(null)}
       >
-        {/* Content group that will be transformed for panning */}
+        {/* Content group that will be transformed for panning and zooming */}
         <g
           ref={contentGroupRef}
-          transform={`translate(${viewportOffset.x}, ${viewportOffset.y})`}
+          transform={transform}
         >
-          {/* Render connections */}
-          {nodes.map((node) =>
-            node.signals.map((signal) => (
-              <ConnectionLine
-                key={`connection-${node.id}-${signal.id}`}
-                nodeId={node.id}
-                nodeText={node.text}
-                nodeX={node.x}
-                nodeY={node.y}
-                signalId={signal.id}
-                signalText={signal.text}
-                signalX={signal.x}
-                signalY={signal.y}
-              />
-            ))
-          )}
+          <RelationshipMarkers />
+
+          {/* Render relationships between nodes beneath the signal connections */}
+          {getRelationshipEnds(graph).map((ends) => (
+            <RelationshipLine
+              key={ends.relationship.id}
+              id={ends.relationship.id}
+              type={ends.relationship.type}
+              label={ends.relationship.label}
+              sourceText={ends.source.text}
+              sourceX={ends.source.x}
+              sourceY={ends.source.y}
+              targetText={ends.target.text}
+              targetX={ends.target.x}
+              targetY={ends.target.y}
+              title={describeRelationship(ends)}
+              dimmed={isDimmed(ends.source.id) || isDimmed(ends.target.id)}
+            />
+          ))}
+
+          {/* Render connections, one per link */}
+          {getSignalLinks(graph).map(({ node, signal }) => (
+            <ConnectionLine
+              key={`connection-${node.id}-${signal.id}`}
+              nodeId={node.id}
+              nodeText={node.text}
+              nodeX={node.x}
+              nodeY={node.y}
+              signalId={signal.id}
+              signalText={signal.text}
+              signalX={signal.x}
+              signalY={signal.y}
+              color={nodeColors.get(node.id)}
+              dimmed={isDimmed(node.id) || isDimmed(signal.id)}
+            />
+          ))}
 
           {/* Render nodes */}
           {nodes.map((node) => (
-            <g key={node.id}>
-              <text
-                id={node.id}
-                x={0}
-                y={0}
-                transform={`translate(${node.x}, ${node.y})`}
-                fill="white"
-                fontSize="16"
-                fontWeight="bold"
-                textAnchor="middle"
-                dominantBaseline="middle"
-              >
-                {node.text}
-              </text>
-
-              {/* Render signals */}
-              {node.signals.map((signal) => {
-                const lines = calculateConnectionPoints(
-                  node.text,
-                  node.x,
-                  node.y,
-                  signal.text,
-                  signal.x,
-                  signal.y
-                ).signalLines;
-
-                return (
-                  <g
-                    key={signal.id}
-                    id={signal.id}
-                    transform={`translate(${signal.x}, ${signal.y})`}
-                  >
-                    {lines.map((line: string, index: number) => (
-                      <text
-                        key={`${signal.id}-line-${index}`}
-                        x={0}
-                        y={index * 16} // 16px line height
-                        fill="#A4A1FF"
-                        fontSize="12"
-                        textAnchor="middle"
-                        dominantBaseline="middle"
-                      >
-                        {line}
-                      </text>
-                    ))}
-                  </g>
-                );
-              })}
+            <text
+              key={node.id}
+              id={node.id}
+              x={0}
+              y={0}
+              transform={`translate(${node.x}, ${node.y})`}
+              opacity={isDimmed(node.id) ? DIMMED_OPACITY : undefined}
+              fill={nodeColors.get(node.id) ?? DEFAULT_NODE_COLOR}
+              fontSize="16"
+              fontWeight="bold"
+              textAnchor="middle"
+              dominantBaseline="middle"
+              {...detailHandlers(node.id, { type: "node", node, signals: getNodeSignals(signals, node.id) })}
+            >
+              {node.text}
+            </text>
+          ))}
+
+          {/* Render signals */}
+          {signals.map((signal) => (
+            <g
+              key={signal.id}
+              id={signal.id}
+              transform={`translate(${signal.x}, ${signal.y})`}
+              opacity={isDimmed(signal.id) ? DIMMED_OPACITY : undefined}
+              {...detailHandlers(signal.id, { type: "signal", signal, nodes: getSignalNodes(nodes, signal) })}
+            >
+              {getSignalLines(signal.text).map((line, index) => (
+                <text
+                  key={`${signal.id}-line-${index}`}
+                  x={0}
+                  y={index * 16} // 16px line height
+                  fill={getSignalColor(signal, nodeColors)}
+                  fontSize="12"
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                >
+                  {line}
+                </text>
+              ))}
             </g>
           ))}
         </g>
       </svg>
+      <MapSearch
+        query={search.query}
+        onQueryChange={search.setQuery}
+        tags={search.tags}
+        availableTags={search.availableTags}
+        onToggleTag={search.toggleTag}
+        categories={graph.categories}
+        categoryIds={search.categoryIds}
+        onToggleCategory={search.toggleCategory}
+        matchCount={search.matches.length}
+        activeIndex={search.activeIndex}
+        onNext={search.next}
+        onPrevious={search.previous}
+        onClear={search.clear}
+      />
+      <MapLegend categories={graph.categories} />
+      <ZoomControls
+        scale={viewport.scale}
+        onZoomIn={zoomIn}
+        onZoomOut={zoomOut}
+        onReset={() => centerOnBounds(contentBounds)}
+        onFit={fitContent}
+      />
+      {detail && (
+        <ElementDetailCard
+          target={detail.target}
+          anchor={detail.anchor}
+          onClose={() => setDetail(null)}
+          onMouseEnter={() => clearTimeout(closeTimeoutRef.current)}
+          onMouseLeave={() => !detail.pinned && scheduleHoverClose()}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
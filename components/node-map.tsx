@@ -2,98 +2,238 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { gsap } from "gsap"
+import { Command as CommandIcon, Grid3x3, History, Keyboard, Network, Palette, Redo2, Undo2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ContextMenu } from "@/components/context-menu"
+import { SignalDetailsPanel } from "@/components/signal-details-panel"
+import { SaveConflictDialog } from "@/components/save-conflict-dialog"
+import { HistoryPanel } from "@/components/history-panel"
+import { SaveStatus, type SaveState } from "@/components/save-status"
+import { CommandPalette } from "@/components/command-palette"
+import { InlineTextEditor } from "@/components/inline-text-editor"
+import { LayoutIssuesPanel } from "@/components/layout-issues-panel"
+import { Minimap } from "@/components/minimap"
+import { MapSearch } from "@/components/map-search"
+import { MapLegend } from "@/components/map-legend"
+import { CategoriesPanel } from "@/components/categories-panel"
+import { ExportImageDialog, type ImageExportOptions, type ImageFormat } from "@/components/export-image-dialog"
+import { CsvImportDialog } from "@/components/csv-import-dialog"
+import { ShortcutsDialog, formatShortcut } from "@/components/shortcuts-dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import saveAs from "file-saver"
-import initialNodesData from "@/data/node-map.json"
 import { ConnectionLine } from "./node-map/connection-line"
-import { calculateConnectionPoints } from "@/lib/utils/text-boundary"
+import { STARRY_SKY_URL } from "./node-map/static-map"
+import {
+  RELATIONSHIP_STYLES,
+  RelationshipLine,
+  RelationshipMarkers,
+  moveRelationshipLine,
+} from "./node-map/relationship-line"
+import { ZoomControls } from "@/components/zoom-controls"
+import { usePanZoom } from "@/hooks/use-pan-zoom"
+import { useContentBounds } from "@/hooks/use-content-bounds"
+import { calculateContentBounds, rectContainsPoint, rectFromPoints, rectsIntersect } from "@/lib/utils/geometry"
+import { useHistory } from "@/hooks/use-history"
+import { useDraftBackup } from "@/hooks/use-draft-backup"
+import { useLayoutIssues } from "@/hooks/use-layout-issues"
+import { useMapSearch } from "@/hooks/use-map-search"
+import { DIMMED_OPACITY } from "@/lib/utils/search"
+import { computeAutoLayout } from "@/lib/utils/auto-layout"
+import {
+  ALIGN_LABELS,
+  DISTRIBUTE_LABELS,
+  alignElements,
+  createDragSnapper,
+  distributeElements,
+  type AlignMode,
+  type AlignmentGuide,
+  type DistributeAxis,
+} from "@/lib/utils/alignment"
+import type { LayoutIssue } from "@/lib/utils/layout-issues"
+import { DEFAULT_NODE_COLOR, getNodeColors, getSignalColor } from "@/lib/utils/categories"
+import { fetchAsDataUrl, svgToPng } from "@/lib/utils/image-export"
+import { formatCsv, parseCsv } from "@/lib/utils/csv"
+import { applyCsvImport, exportSignalsToCsv, type CsvImportPlan } from "@/lib/utils/map-csv"
+import {
+  addNodeCommand,
+  addRelationshipCommand,
+  addSignalCommand,
+  batchCommand,
+  deleteElementsCommand,
+  deleteNodeCommand,
+  deleteRelationshipCommand,
+  deleteSignalCommand,
+  duplicateElementsCommand,
+  moveNodeCommand,
+  moveSignalCommand,
+  pickSignalMetadata,
+  replaceGraphCommand,
+  setCategoriesCommand,
+  setNodeCategoryCommand,
+  setNodePinnedCommand,
+  setNodeTextCommand,
+  setRelationshipCommand,
+  setSignalMetadataCommand,
+  setSignalNodesCommand,
+  setSignalTextCommand,
+} from "@/lib/commands/node-map"
+import {
+  calculateConnectionPoints,
+  calculateNodeBoundary,
+  calculateRelationshipPoints,
+  calculateSignalBoundary,
+  findNearestBoundaryPoint,
+  getSignalLines,
+} from "@/lib/utils/text-boundary"
+import { getNodeSignals, getSignalLinks, getSignalNodes, nextSignalPosition } from "@/lib/utils/signal-links"
+import {
+  describeRelationship,
+  getNodeRelationships,
+  getRelationshipEnds,
+  type RelationshipEnds,
+} from "@/lib/utils/relationships"
+import {
+  createNodeMapDocument,
+  describeSchemaIssues,
+  parseNodeMapDocument,
+  relationshipKey,
+  type SchemaIssue,
+} from "@/lib/schema/node-map"
+import type {
+  CategoryData,
+  NodeData,
+  NodeMapGraph,
+  Position,
+  Rect,
+  RelationshipData,
+  RelationshipType,
+  SignalData,
+  SignalMetadata,
+} from "@/lib/types/node-types"
 
 // Types
-export interface NodeData {
-  id: string
-  text: string
-  x: number
-  y: number
-  signals: SignalData[]
+export type {
+  BoundingBox,
+  NodeData,
+  NodeMapGraph,
+  Position,
+  RelationshipData,
+  RelationshipType,
+  SignalData,
+  Viewport,
+  ViewportOffset,
+} from "@/lib/types/node-types"
+
+// Quiet period after the last edit before an autosave
+const AUTOSAVE_DELAY = 2000
+const AUTOSAVE_PREFERENCE_KEY = "ftsg-map:autosave"
+const GRID_PREFERENCE_KEY = "ftsg-map:snap-to-grid"
+
+// Spacing of the snapping grid, and how close (in screen pixels) a dragged element has to come to another
+// one's edge or center to snap to it
+const GRID_SIZE = 20
+const GUIDE_SNAP_DISTANCE = 6
+const GUIDE_COLOR = "#F472B6"
+
+// Offset of duplicated elements from their originals
+const DUPLICATE_OFFSET = { x: 30, y: 30 }
+
+const SELECTED_FILL = "#93C5FD"
+
+// Arrow-key nudge distance, and with Shift held
+const NUDGE_STEP = 1
+const NUDGE_STEP_LARGE = 10
+
+const NUDGE_DIRECTIONS: Record<string, Position> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
 }
 
-export interface SignalData {
-  id: string
-  text: string
-  x: number
-  y: number
-  parentId: string
+const DROP_TARGET_COLOR = "#22C55E"
+// Outline of elements with a layout issue
+const ISSUE_COLOR = "#EF4444"
+
+// Gap between a selected node's text and the handle that drags out a new relationship
+const CONNECT_HANDLE_GAP = 8
+
+// Seconds elements take to glide into their auto-layout positions
+const AUTO_LAYOUT_DURATION = 0.8
+
+// Dashed box drawn around a selected element (or, in green, a node a dragged signal can be dropped on, or in
+// red, an element with a layout issue)
+function SelectionOutline({ boundary, color = "#3B82F6" }: { boundary: Rect; color?: string }) {
+  return (
+    <rect
+      {...boundary}
+      rx={4}
+      fill={`${color}1F`}
+      stroke={color}
+      strokeDasharray="4 2"
+      vectorEffect="non-scaling-stroke"
+      pointerEvents="none"
+    />
+  )
+}
+
+// Node or signal with the given id
+type ElementLocation = { type: "node"; node: NodeData } | { type: "signal"; signal: SignalData }
+
+function locateElement({ nodes, signals }: NodeMapGraph, id: string): ElementLocation | null {
+  const node = nodes.find((n) => n.id === id)
+  if (node) return { type: "node", node }
+  const signal = signals.find((s) => s.id === id)
+  return signal ? { type: "signal", signal } : null
 }
 
-export interface Position {
-  x: number
-  y: number
+// Keys pressed in form controls, on focused buttons or anywhere in an open dialog are theirs, not the map's
+function isControlKeyTarget(target: HTMLElement) {
+  return (
+    ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(target.tagName) ||
+    target.isContentEditable ||
+    target.closest('[role="dialog"], [role="alertdialog"]') !== null
+  )
 }
 
-export interface ViewportOffset {
-  x: number
-  y: number
+// What the dirty check and saves compare: the graph without any envelope fields it may carry
+function serializeGraph(graph: NodeMapGraph) {
+  return JSON.stringify(createNodeMapDocument(graph))
 }
 
-export interface BoundingBox {
-  minX: number
-  minY: number
-  maxX: number
-  maxY: number
-  width: number
-  height: number
+interface NodeMapProps {
+  // Map being edited; saves go to /api/maps/[slug]
+  slug: string
+  initialGraph: NodeMapGraph
+  // Revision the map was loaded at, sent with saves to detect concurrent edits
+  initialRevision?: string | null
 }
 
-// Initial data
-const initialNodes: NodeData[] = [
-  {
-    id: "node-1",
-    text: "Main Node 1",
-    x: 200,
-    y: 200,
-    signals: [
-      { id: "signal-1", text: "Signal 1", x: 300, y: 150, parentId: "node-1" },
-      { id: "signal-2", text: "Signal 2", x: 300, y: 250, parentId: "node-1" },
-    ],
-  },
-  {
-    id: "node-2",
-    text: "Main Node 2",
-    x: 500,
-    y: 300,
-    signals: [
-      { id: "signal-3", text: "Signal 3", x: 600, y: 250, parentId: "node-2" },
-      { id: "signal-4", text: "Signal 4", x: 600, y: 350, parentId: "node-2" },
-    ],
-  },
-]
-
-export default function NodeMap() {
-  const [nodes, setNodes] = useState<NodeData[]>(initialNodesData)
+export default function NodeMap({ slug, initialGraph, initialRevision = null }: NodeMapProps) {
+  const [graph, setGraph] = useState<NodeMapGraph>(initialGraph)
+  const { nodes, signals, relationships } = graph
   const [isLiveMode, setIsLiveMode] = useState(false)
-  const [viewportOffset, setViewportOffset] = useState<ViewportOffset>({ x: 0, y: 0 })
   const [isDraggingViewport, setIsDraggingViewport] = useState(false)
   const [dragStart, setDragStart] = useState<Position>({ x: 0, y: 0 })
   const [svgSize, setSvgSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 })
-  const [contentBounds, setContentBounds] = useState<BoundingBox>({
-    minX: 0,
-    minY: 0,
-    maxX: 0,
-    maxY: 0,
-    width: 0,
-    height: 0,
-  })
 
   const [contextMenu, setContextMenu] = useState<{
     show: boolean
     x: number
     y: number
-    type: "canvas" | "node" | "signal"
+    type: "canvas" | "node" | "signal" | "relationship"
     id?: string
-    parentId?: string
     clientX?: number // Added for screen position
     clientY?: number // Added for screen position
     currentText?: string // Added to store current text for editing
@@ -104,11 +244,126 @@ export default function NodeMap() {
     type: "canvas",
   })
 
+  // Selected nodes and signals (ids are unique across both)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  // Rubber-band selection in progress, in content coordinates
+  const [marquee, setMarquee] = useState<{ start: Position; end: Position; additive: boolean } | null>(null)
+  // Node that dragged signals would be moved to (or, with Alt, linked to) if dropped now
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  // Relationship being drawn from a node to the pointer, by dragging the node's handle or after picking a
+  // type from its context menu
+  const [connection, setConnection] = useState<{ sourceId: string; type: RelationshipType; pointer: Position } | null>(
+    null,
+  )
+
+  // Signal whose metadata is open in the details panel
+  const [detailsTarget, setDetailsTarget] = useState<string | null>(null)
+
+  // Newer version found on the server when a save was rejected
+  const [saveConflict, setSaveConflict] = useState<{ graph: NodeMapGraph; revision: string } | null>(null)
+  // Revision the editor was loaded at or last saved/restored as. The ref lets a queued save pick up the revision
+  // the save before it produced, before the next render.
+  const [revision, setRevision] = useState<string | null>(initialRevision)
+  const revisionRef = useRef(initialRevision)
+  // Tail of the queue of saves and restores, which run one at a time so the editor never conflicts with itself
+  const serverRequestRef = useRef<Promise<unknown>>(Promise.resolve())
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false)
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false)
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false)
+  // Format the image export dialog is open with, or null while it's closed
+  const [imageExportFormat, setImageExportFormat] = useState<ImageFormat | null>(null)
+  const [isExportingImage, setIsExportingImage] = useState(false)
+  // CSV file being mapped and previewed before import
+  const [csvImport, setCsvImport] = useState<{ name: string; rows: string[][] } | null>(null)
+  const [isLayingOut, setIsLayingOut] = useState(false)
+  // Element whose text is being edited on the canvas, with the text typed so far
+  const [inlineEdit, setInlineEdit] = useState<{ id: string; text: string } | null>(null)
+
+  // Serialized map as last loaded or saved; the map is dirty while the current one differs
+  const [savedContent, setSavedContent] = useState(() => serializeGraph(initialGraph))
+  const [isSaving, setIsSaving] = useState(false)
+  // Content whose save failed, so autosave doesn't retry it in a loop
+  const [failedContent, setFailedContent] = useState<string | null>(null)
+  const [autosave, setAutosave] = useState(
+    () => typeof window !== "undefined" && localStorage.getItem(AUTOSAVE_PREFERENCE_KEY) === "true",
+  )
+  const [isGridEnabled, setIsGridEnabled] = useState(
+    () => typeof window !== "undefined" && localStorage.getItem(GRID_PREFERENCE_KEY) === "true",
+  )
+  // Alignment guides shown while dragging
+  const [guides, setGuides] = useState<AlignmentGuide[]>([])
+
   const svgRef = useRef<SVGSVGElement>(null)
   const contentGroupRef = useRef<SVGGElement>(null)
   const animationsRef = useRef<gsap.core.Timeline[]>([])
+  const layoutTweenRef = useRef<gsap.core.Tween | null>(null)
   const nodeRefsMap = useRef<Map<string, { x: number; y: number }>>(new Map())
   const signalRefsMap = useRef<Map<string, { x: number; y: number }>>(new Map())
+  // Where the pointer went down on empty canvas, to tell a click (clears the selection) from a pan
+  const canvasPointerDownRef = useRef<Position | null>(null)
+
+  const {
+    viewport,
+    transform,
+    panBy,
+    zoomIn,
+    zoomOut,
+    fitToBounds,
+    centerOnBounds,
+    centerOnPoint,
+    resetViewport,
+    clientToContent,
+  } = usePanZoom(svgRef)
+  const history = useHistory(setGraph)
+  const { contentBounds, getViewportInContentCoords } = useContentBounds(
+    graph,
+    svgSize.width,
+    svgSize.height,
+    viewport.x,
+    viewport.y,
+    viewport.scale,
+  )
+
+  // Map as rendered: the inline editor's draft text shows, and moves connection endpoints, while typing
+  const displayGraph = useMemo(() => {
+    if (!inlineEdit) return graph
+    const withDraft = <T extends NodeData | SignalData>(element: T) =>
+      element.id === inlineEdit.id ? { ...element, text: inlineEdit.text } : element
+    return { ...graph, nodes: graph.nodes.map(withDraft), signals: graph.signals.map(withDraft) }
+  }, [graph, inlineEdit])
+
+  // Category color of each node; signals and connections take theirs from it
+  const nodeColors = useMemo(() => getNodeColors(graph), [graph])
+  const categoryNodeCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    graph.nodes.forEach((node) => {
+      if (node.categoryId) counts.set(node.categoryId, (counts.get(node.categoryId) ?? 0) + 1)
+    })
+    return counts
+  }, [graph])
+
+  const content = useMemo(() => serializeGraph(graph), [graph])
+  const isDirty = content !== savedContent
+  const saveState: SaveState = isSaving
+    ? "saving"
+    : failedContent === content
+      ? "error"
+      : isDirty
+        ? "unsaved"
+        : "saved"
+
+  const { recoverableDraft, dismissDraft } = useDraftBackup(slug, initialGraph, graph, revision, isDirty)
+
+  const layoutIssues = useLayoutIssues(graph)
+  const issueIds = useMemo(() => new Set(layoutIssues.flatMap((issue) => issue.elementIds)), [layoutIssues])
+
+  // Stepping through search matches pans to each one and, while editing, selects it
+  const search = useMapSearch(graph, (match) => {
+    centerOnPoint(match.position)
+    if (!isLiveMode) setSelectedIds([match.id])
+  })
+  const isDimmed = (id: string) => search.matchIds !== null && !search.matchIds.has(id)
 
   // Update SVG size on resize and initial render
   useEffect(() => {
@@ -141,17 +396,12 @@ export default function NodeMap() {
     }
   }, [])
 
-  // Calculate content bounds whenever nodes change or viewport is panned
-  useEffect(() => {
-    calculateContentBounds()
-  }, [nodes, viewportOffset])
-
-  // Reset viewport offset when switching to live mode
+  // Reset pan and zoom when switching to live mode
   useEffect(() => {
     if (isLiveMode) {
-      setViewportOffset({ x: 0, y: 0 })
+      resetViewport()
     }
-  }, [isLiveMode])
+  }, [isLiveMode, resetViewport])
 
   // Initialize position tracking maps
   useEffect(() => {
@@ -162,12 +412,11 @@ export default function NodeMap() {
     // Initialize with starting positions
     nodes.forEach((node) => {
       nodeRefsMap.current.set(node.id, { x: node.x, y: node.y })
-
-      node.signals.forEach((signal) => {
-        signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
-      })
     })
-  }, [nodes])
+    signals.forEach((signal) => {
+      signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
+    })
+  }, [graph])
 
   // Handle animations
   useEffect(() => {
@@ -180,88 +429,136 @@ export default function NodeMap() {
     return () => {
       stopAnimations()
     }
-  }, [isLiveMode, nodes])
-
-  // Calculate the bounding box of all content
-  const calculateContentBounds = () => {
-    if (nodes.length === 0) {
-      setContentBounds({
-        minX: 0,
-        minY: 0,
-        maxX: svgSize.width,
-        maxY: svgSize.height,
-        width: svgSize.width,
-        height: svgSize.height,
-      })
-      return
+  }, [isLiveMode, graph])
+
+  // Drop deleted elements from the selection
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => locateElement(graph, id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [graph])
+
+  // Selection shortcuts: Delete/Backspace, Ctrl+D to duplicate, Ctrl+A to select all, Escape to clear,
+  // arrow keys to nudge, Shift+2 to zoom to the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isLiveMode || isControlKeyTarget(e.target as HTMLElement)) return
+
+      const key = e.key.toLowerCase()
+      if ((key === "delete" || key === "backspace") && selectedIds.length > 0) {
+        e.preventDefault()
+        deleteSelection()
+      } else if ((e.ctrlKey || e.metaKey) && key === "d" && selectedIds.length > 0) {
+        e.preventDefault()
+        duplicateSelection()
+      } else if ((e.ctrlKey || e.metaKey) && key === "a") {
+        e.preventDefault()
+        setSelectedIds([...nodes.map((node) => node.id), ...signals.map((signal) => signal.id)])
+      } else if (e.shiftKey && e.code === "Digit2" && selectedIds.length > 0) {
+        // By key position, since Shift+2 types a different character on each layout
+        e.preventDefault()
+        zoomToSelection()
+      } else if (key === "escape") {
+        setSelectedIds([])
+      } else if (NUDGE_DIRECTIONS[e.key] && selectedIds.length > 0 && !(e.ctrlKey || e.metaKey || e.altKey)) {
+        e.preventDefault()
+        const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP
+        nudgeSelection(NUDGE_DIRECTIONS[e.key].x * step, NUDGE_DIRECTIONS[e.key].y * step)
+      }
     }
 
-    let minX = Number.POSITIVE_INFINITY
-    let minY = Number.POSITIVE_INFINITY
-    let maxX = Number.NEGATIVE_INFINITY
-    let maxY = Number.NEGATIVE_INFINITY
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [isLiveMode, selectedIds, graph])
 
-    // Add padding to ensure text is fully visible
-    const padding = 50
+  // Editor-wide shortcuts: Ctrl+K command palette, ? cheat sheet, Ctrl+S save
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase()
+      if ((e.ctrlKey || e.metaKey) && key === "k") {
+        e.preventDefault()
+        setIsPaletteOpen((prev) => !prev)
+        return
+      }
+      if ((e.ctrlKey || e.metaKey) && key === "s") {
+        // Never let the browser's own "Save page" dialog open. Holding the keys doesn't queue up a save per
+        // repeat; saves queue behind any that are running, so none conflicts with another.
+        e.preventDefault()
+        if (!isLiveMode && !e.repeat) saveToProject()
+        return
+      }
 
-    nodes.forEach((node) => {
-      // Consider the text width (approximate)
-      const textWidth = node.text.length * 8
-      const textHeight = 20
-
-      minX = Math.min(minX, node.x - textWidth / 2 - padding)
-      minY = Math.min(minY, node.y - textHeight / 2 - padding)
-      maxX = Math.max(maxX, node.x + textWidth / 2 + padding)
-      maxY = Math.max(maxY, node.y + textHeight / 2 + padding)
-
-      node.signals.forEach((signal) => {
-        const signalTextWidth = signal.text.length * 7
-        const signalTextHeight = 16
-
-        minX = Math.min(minX, signal.x - signalTextWidth / 2 - padding)
-        minY = Math.min(minY, signal.y - signalTextHeight / 2 - padding)
-        maxX = Math.max(maxX, signal.x + signalTextWidth / 2 + padding)
-        maxY = Math.max(maxY, signal.y + signalTextHeight / 2 + padding)
-      })
-    })
+      const target = e.target as HTMLElement
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return
+      if (e.key === "?") {
+        e.preventDefault()
+        setIsShortcutsOpen(true)
+      }
+    }
 
-    // Ensure we have valid bounds even with extreme values
-    if (!isFinite(minX) || !isFinite(minY) || !isFinite(maxX) || !isFinite(maxY)) {
-      minX = 0
-      minY = 0
-      maxX = svgSize.width
-      maxY = svgSize.height
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
     }
+  }, [isLiveMode, graph, revision])
 
-    setContentBounds({
-      minX,
-      minY,
-      maxX,
-      maxY,
-      width: maxX - minX,
-      height: maxY - minY,
-    })
-  }
+  // Autosave once edits have settled. Paused while a conflict or draft recovery awaits a decision,
+  // and for content that just failed to save.
+  useEffect(() => {
+    if (!autosave || !isDirty || isSaving || saveConflict || recoverableDraft || failedContent === content) return
+
+    const timeoutId = setTimeout(() => {
+      saveToProject({ message: "Autosave", silent: true })
+    }, AUTOSAVE_DELAY)
 
-  // Get the transformed content bounds (adjusted for viewport offset)
-  const getTransformedContentBounds = () => {
-    return {
-      x: contentBounds.minX + viewportOffset.x,
-      y: contentBounds.minY + viewportOffset.y,
-      width: contentBounds.width,
-      height: contentBounds.height,
+    return () => {
+      clearTimeout(timeoutId)
     }
-  }
+  }, [autosave, isDirty, isSaving, saveConflict, recoverableDraft, failedContent, content])
+
+  // Warn before leaving with unsaved changes (the local draft is only a fallback)
+  useEffect(() => {
+    if (!isDirty) return
 
-  // Get the viewport bounds in content coordinates
-  const getViewportInContentCoords = () => {
-    return {
-      x: -viewportOffset.x,
-      y: -viewportOffset.y,
-      width: svgSize.width,
-      height: svgSize.height,
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ""
     }
-  }
+
+    window.addEventListener("beforeunload", handleBeforeUnload)
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload)
+    }
+  }, [isDirty])
+
+  // Undo/redo keyboard shortcuts
+  const { undo, redo } = history
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isLiveMode || !(e.ctrlKey || e.metaKey)) return
+
+      // Leave text fields to their native undo
+      const target = e.target as HTMLElement
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [isLiveMode, undo, redo])
 
   // Remove the calculateLineOffsets function and update the updateLine function
   const updateLine = (nodeId: string, signalId: string) => {
@@ -272,7 +569,7 @@ export default function NodeMap() {
 
     // Find the node and signal text
     const node = nodes.find((n) => n.id === nodeId)
-    const signal = node?.signals.find((s) => s.id === signalId)
+    const signal = signals.find((s) => s.id === signalId)
 
     if (lineElement && dotElement && nodePos && signalPos && node && signal) {
       // Calculate connection points using the same function as the ConnectionLine component
@@ -297,6 +594,21 @@ export default function NodeMap() {
     }
   }
 
+  // Move a relationship edge to the tracked positions of its two nodes
+  const updateRelationship = ({ relationship, source, target }: RelationshipEnds) => {
+    const sourcePos = nodeRefsMap.current.get(source.id) || source
+    const targetPos = nodeRefsMap.current.get(target.id) || target
+    const { start, end } = calculateRelationshipPoints(
+      source.text,
+      sourcePos.x,
+      sourcePos.y,
+      target.text,
+      targetPos.x,
+      targetPos.y,
+    )
+    moveRelationshipLine(relationship.id, start, end)
+  }
+
   const startAnimations = () => {
     stopAnimations()
 
@@ -305,6 +617,9 @@ export default function NodeMap() {
     animationsRef.current.push(masterTimeline)
 
     nodes.forEach((node) => {
+      const nodeSignals = getNodeSignals(signals, node.id)
+      const nodeRelationships = getNodeRelationships(graph, node.id)
+
       // Get initial position
       const nodeInitialX = node.x
       const nodeInitialY = node.y
@@ -334,50 +649,53 @@ export default function NodeMap() {
             nodeRefsMap.current.set(node.id, { x: currentX, y: currentY })
 
             // Update all connecting lines for this node
-            node.signals.forEach((signal) => {
+            nodeSignals.forEach((signal) => {
               updateLine(node.id, signal.id)
             })
+            nodeRelationships.forEach(updateRelationship)
           }
         },
       })
 
       masterTimeline.add(nodeAnimation, 0)
+    })
 
-      // Animate each signal with its own onUpdate
-      node.signals.forEach((signal) => {
-        const signalInitialX = signal.x
-        const signalInitialY = signal.y
-
-        const signalOffsetX = Math.random() * 30 - 15
-        const signalOffsetY = Math.random() * 30 - 15
-        const signalDuration = 4 + Math.random() * 3
-
-        const signalAnimation = gsap.to(`#${signal.id}`, {
-          x: signalInitialX + signalOffsetX,
-          y: signalInitialY + signalOffsetY,
-          duration: signalDuration,
-          ease: "sine.inOut",
-          repeat: -1,
-          yoyo: true,
-          onUpdate: () => {
-            // Get current position from GSAP
-            const signalElement = document.getElementById(signal.id)
-            if (signalElement) {
-              const matrix = new DOMMatrix(window.getComputedStyle(signalElement).transform)
-              const currentX = matrix.e || signalInitialX
-              const currentY = matrix.f || signalInitialY
-
-              // Update position in our tracking map
-              signalRefsMap.current.set(signal.id, { x: currentX, y: currentY })
-
-              // Update the connecting line
-              updateLine(node.id, signal.id)
-            }
-          },
-        })
+    // Animate each signal with its own onUpdate
+    signals.forEach((signal) => {
+      const signalInitialX = signal.x
+      const signalInitialY = signal.y
+
+      const signalOffsetX = Math.random() * 30 - 15
+      const signalOffsetY = Math.random() * 30 - 15
+      const signalDuration = 4 + Math.random() * 3
+
+      const signalAnimation = gsap.to(`#${signal.id}`, {
+        x: signalInitialX + signalOffsetX,
+        y: signalInitialY + signalOffsetY,
+        duration: signalDuration,
+        ease: "sine.inOut",
+        repeat: -1,
+        yoyo: true,
+        onUpdate: () => {
+          // Get current position from GSAP
+          const signalElement = document.getElementById(signal.id)
+          if (signalElement) {
+            const matrix = new DOMMatrix(window.getComputedStyle(signalElement).transform)
+            const currentX = matrix.e || signalInitialX
+            const currentY = matrix.f || signalInitialY
+
+            // Update position in our tracking map
+            signalRefsMap.current.set(signal.id, { x: currentX, y: currentY })
 
-        masterTimeline.add(signalAnimation, 0)
+            // Update every line to the signal's nodes
+            signal.nodeIds.forEach((nodeId) => {
+              updateLine(nodeId, signal.id)
+            })
+          }
+        },
       })
+
+      masterTimeline.add(signalAnimation, 0)
     })
   }
 
@@ -387,44 +705,25 @@ export default function NodeMap() {
       timeline.kill()
     })
     animationsRef.current = []
+    // Any change to the map abandons an auto-layout still gliding into place
+    layoutTweenRef.current?.kill()
+    layoutTweenRef.current = null
 
     // Reset positions
     nodes.forEach((node) => {
       gsap.set(`#${node.id}`, { x: node.x, y: node.y })
       nodeRefsMap.current.set(node.id, { x: node.x, y: node.y })
+    })
+    signals.forEach((signal) => {
+      gsap.set(`#${signal.id}`, { x: signal.x, y: signal.y })
+      signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
+    })
 
-      node.signals.forEach((signal) => {
-        gsap.set(`#${signal.id}`, { x: signal.x, y: signal.y })
-        signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
-      })
-
-      // Reset lines and dots
-      node.signals.forEach((signal) => {
-        const lineElement = document.getElementById(`line-${node.id}-${signal.id}`)
-        const dotElement = document.getElementById(`dot-${node.id}-${signal.id}`)
-        if (lineElement && dotElement) {
-          // Calculate connection points using the same function as the ConnectionLine component
-          const { start, end } = calculateConnectionPoints(
-            node.text,
-            node.x,
-            node.y,
-            signal.text,
-            signal.x,
-            signal.y
-          )
-
-          // Update line position
-          lineElement.setAttribute("x1", start.x.toString())
-          lineElement.setAttribute("y1", start.y.toString())
-          lineElement.setAttribute("x2", end.x.toString())
-          lineElement.setAttribute("y2", end.y.toString())
-
-          // Update dot position
-          dotElement.setAttribute("cx", end.x.toString())
-          dotElement.setAttribute("cy", end.y.toString())
-        }
-      })
+    // Reset lines and dots to the resting positions
+    getSignalLinks(graph).forEach(({ node, signal }) => {
+      updateLine(node.id, signal.id)
     })
+    getRelationshipEnds(graph).forEach(updateRelationship)
   }
 
   // Handle viewport dragging
@@ -433,11 +732,34 @@ export default function NodeMap() {
 
     // Only start dragging if we're clicking on the background, not on a node or signal
     if ((e.target as Element).tagName === "svg" || (e.target as Element).tagName === "rect") {
+      canvasPointerDownRef.current = { x: e.clientX, y: e.clientY }
+
+      // Shift-drag draws a selection marquee instead of panning
+      if (e.shiftKey) {
+        const point = clientToContent(e.clientX, e.clientY)
+        setMarquee({ start: point, end: point, additive: true })
+        return
+      }
+
       setIsDraggingViewport(true)
       setDragStart({ x: e.clientX, y: e.clientY })
     }
   }
 
+  // Select every node and signal whose text touches the marquee
+  const selectInMarquee = (start: Position, end: Position, additive: boolean) => {
+    const area = rectFromPoints(start, end)
+    const hits: string[] = []
+    nodes.forEach((node) => {
+      if (rectsIntersect(area, calculateNodeBoundary(node.text, node.x, node.y))) hits.push(node.id)
+    })
+    signals.forEach((signal) => {
+      if (rectsIntersect(area, calculateSignalBoundary(signal.text, signal.x, signal.y))) hits.push(signal.id)
+    })
+
+    setSelectedIds((prev) => (additive ? Array.from(new Set([...prev, ...hits])) : hits))
+  }
+
   // Helper function to ensure smooth panning
   const smoothPan = (dx: number, dy: number) => {
     // Apply a small damping factor to make panning smoother
@@ -445,13 +767,14 @@ export default function NodeMap() {
     const smoothDx = dx * damping
     const smoothDy = dy * damping
 
-    setViewportOffset((prev) => ({
-      x: prev.x + smoothDx,
-      y: prev.y + smoothDy,
-    }))
+    panBy(smoothDx, smoothDy)
   }
 
   const handleViewportDragMove = (e: React.MouseEvent) => {
+    if (marquee) {
+      setMarquee({ ...marquee, end: clientToContent(e.clientX, e.clientY) })
+      return
+    }
     if (!isDraggingViewport) return
 
     const dx = e.clientX - dragStart.x
@@ -464,15 +787,30 @@ export default function NodeMap() {
   }
 
   const handleViewportDragEnd = () => {
+    if (marquee) {
+      selectInMarquee(marquee.start, marquee.end, marquee.additive)
+      setMarquee(null)
+    }
     setIsDraggingViewport(false)
   }
 
+  // A click on empty canvas (not the end of a pan or marquee) clears the selection
+  const handleCanvasClick = (e: React.MouseEvent) => {
+    closeContextMenu()
+
+    const down = canvasPointerDownRef.current
+    canvasPointerDownRef.current = null
+    if (!down || e.shiftKey) return
+    if (Math.hypot(e.clientX - down.x, e.clientY - down.y) < 3) {
+      setSelectedIds([])
+    }
+  }
+
   // Handle context menu
   const handleContextMenu = (
     e: React.MouseEvent,
-    type: "canvas" | "node" | "signal",
+    type: "canvas" | "node" | "signal" | "relationship",
     id?: string,
-    parentId?: string,
   ) => {
     // Prevent context menu in Live Mode
     if (isLiveMode) {
@@ -484,30 +822,21 @@ export default function NodeMap() {
     e.stopPropagation()
     e.preventDefault()
 
-    // Get position relative to SVG
-    const svgRect = svgRef.current?.getBoundingClientRect()
-    const x = e.clientX - (svgRect?.left || 0)
-    const y = e.clientY - (svgRect?.top || 0)
+    // Convert to content coordinates, undoing the viewport pan and zoom
+    const { x: adjustedX, y: adjustedY } = clientToContent(e.clientX, e.clientY)
 
-    // Adjust for viewport offset to get the true position in the coordinate system
-    const adjustedX = x - viewportOffset.x
-    const adjustedY = y - viewportOffset.y
+    // The menu acts on the selection, so right-clicking outside it selects just that element
+    if (id && (type === "node" || type === "signal") && !selectedIds.includes(id)) {
+      setSelectedIds([id])
+    }
 
-    // Get current text for the element if it's a node or signal
+    // Get current text for the element if it's a node or signal, or a relationship's label
     let currentText = ""
-    if (type === "node" && id) {
-      const node = nodes.find((n) => n.id === id)
-      if (node) {
-        currentText = node.text
-      }
-    } else if (type === "signal" && id && parentId) {
-      const node = nodes.find((n) => n.id === parentId)
-      if (node) {
-        const signal = node.signals.find((s) => s.id === id)
-        if (signal) {
-          currentText = signal.text
-        }
-      }
+    const element = id ? locateElement(graph, id) : null
+    if (element) {
+      currentText = element.type === "node" ? element.node.text : element.signal.text
+    } else if (type === "relationship") {
+      currentText = relationships.find((r) => r.id === id)?.label ?? ""
     }
 
     setContextMenu({
@@ -516,7 +845,6 @@ export default function NodeMap() {
       y: adjustedY,
       type,
       id,
-      parentId,
       clientX: e.clientX, // Store actual screen coordinates
       clientY: e.clientY,
       currentText, // Store current text for editing
@@ -530,65 +858,35 @@ export default function NodeMap() {
   // Node operations
   const addNode = (x: number, y: number) => {
     const newId = `node-${Date.now()}`
-    setNodes((prev) => [
-      ...prev,
-      {
+    history.execute(
+      addNodeCommand({
         id: newId,
         text: "New Node",
         x,
         y,
-        signals: [],
-      },
-    ])
+      }),
+    )
 
     // Add to tracking map
     nodeRefsMap.current.set(newId, { x, y })
+    return newId
   }
 
   // Enhanced addSignal function with better positioning
-  const addSignal = (parentId: string) => {
-    const parent = nodes.find((node) => node.id === parentId)
-    if (!parent) return
+  const addSignal = (nodeId: string) => {
+    const node = nodes.find((n) => n.id === nodeId)
+    if (!node) return
 
     const newId = `signal-${Date.now()}`
+    const { x: newX, y: newY } = nextSignalPosition(node, getNodeSignals(signals, nodeId).length)
 
-    // Calculate a good position for the new signal
-    // Get existing signals for this node to avoid overlap
-    const existingSignals = parent.signals.length
-
-    // Calculate angle based on number of existing signals
-    // This will distribute signals in a semi-circle around the node
-    const angleStep = Math.PI / (existingSignals + 2) // +2 to leave space on both ends
-    const angle = angleStep * (existingSignals + 1)
-
-    // Distance from node
-    const distance = 100
-
-    // Calculate position using polar coordinates
-    const offsetX = Math.cos(angle) * distance
-    const offsetY = Math.sin(angle) * distance
-
-    const newX = parent.x + offsetX
-    const newY = parent.y + offsetY
-
-    setNodes((prev) =>
-      prev.map((node) => {
-        if (node.id === parentId) {
-          return {
-            ...node,
-            signals: [
-              ...node.signals,
-              {
-                id: newId,
-                text: "New Signal",
-                x: newX,
-                y: newY,
-                parentId,
-              },
-            ],
-          }
-        }
-        return node
+    history.execute(
+      addSignalCommand({
+        id: newId,
+        text: "New Signal",
+        x: newX,
+        y: newY,
+        nodeIds: [nodeId],
       }),
     )
 
@@ -596,62 +894,442 @@ export default function NodeMap() {
     signalRefsMap.current.set(newId, { x: newX, y: newY })
   }
 
-  const updateNodeText = (id: string, text: string) => {
-    setNodes((prev) =>
-      prev.map((node) => {
-        if (node.id === id) {
-          return { ...node, text }
-        }
-        return node
-      }),
-    )
+  // Blank text is ignored rather than saved, since the schema would reject every later save of the map
+  const updateNodeText = (id: string, rawText: string) => {
+    const node = nodes.find((n) => n.id === id)
+    const text = rawText.trim()
+    if (!node || !text || node.text === text) return
+
+    history.execute(setNodeTextCommand(id, node.text, text))
   }
 
-  const updateSignalText = (id: string, parentId: string, text: string) => {
-    setNodes((prev) =>
-      prev.map((node) => {
-        if (node.id === parentId) {
-          return {
-            ...node,
-            signals: node.signals.map((signal) => {
-              if (signal.id === id) {
-                return { ...signal, text }
-              }
-              return signal
-            }),
-          }
-        }
-        return node
-      }),
-    )
+  const updateSignalText = (id: string, rawText: string) => {
+    const signal = signals.find((s) => s.id === id)
+    const text = rawText.trim()
+    if (!signal || !text || signal.text === text) return
+
+    history.execute(setSignalTextCommand(id, signal.text, text))
   }
 
+  const updateSignalMetadata = (id: string, metadata: SignalMetadata) => {
+    const signal = signals.find((s) => s.id === id)
+    if (!signal) return
+
+    history.execute(setSignalMetadataCommand(id, pickSignalMetadata(signal), metadata))
+  }
+
+  // Signals linked only to this node are deleted with it
   const deleteNode = (id: string) => {
-    setNodes((prev) => prev.filter((node) => node.id !== id))
+    if (!nodes.some((node) => node.id === id)) return
+
+    history.execute(deleteNodeCommand(graph, id))
 
     // Remove from tracking map
     nodeRefsMap.current.delete(id)
   }
 
-  const deleteSignal = (id: string, parentId: string) => {
-    setNodes((prev) =>
-      prev.map((node) => {
-        if (node.id === parentId) {
-          return {
-            ...node,
-            signals: node.signals.filter((signal) => signal.id !== id),
+  const deleteSignal = (id: string) => {
+    if (!signals.some((signal) => signal.id === id)) return
+
+    history.execute(deleteSignalCommand(graph, id))
+
+    // Remove from tracking map
+    signalRefsMap.current.delete(id)
+  }
+
+  // Remove one of a shared signal's links; its last link can only go by deleting the signal
+  const unlinkSignal = (id: string, nodeId: string) => {
+    const signal = signals.find((s) => s.id === id)
+    if (!signal || signal.nodeIds.length < 2) return
+
+    history.execute(
+      setSignalNodesCommand(
+        "Unlink Signal",
+        signal,
+        signal.nodeIds.filter((other) => other !== nodeId),
+      ),
+    )
+  }
+
+  // Relationships. A pair of nodes has at most one relationship of each type.
+  const hasRelationship = (candidate: RelationshipData) => {
+    const key = relationshipKey(candidate)
+    return relationships.some(
+      (relationship) => relationship.id !== candidate.id && relationshipKey(relationship) === key,
+    )
+  }
+
+  const addRelationship = (sourceId: string, targetId: string, type: RelationshipType) => {
+    const relationship = { id: `relationship-${Date.now()}`, type, sourceId, targetId }
+    if (sourceId === targetId || hasRelationship(relationship)) return
+
+    history.execute(addRelationshipCommand(relationship))
+  }
+
+  const updateRelationshipData = (
+    id: string,
+    label: string,
+    update: (relationship: RelationshipData) => RelationshipData,
+  ) => {
+    const relationship = relationships.find((r) => r.id === id)
+    if (!relationship) return
+
+    const next = update(relationship)
+    if (hasRelationship(next)) {
+      alert("These nodes already have a relationship of that type")
+      return
+    }
+    history.execute(setRelationshipCommand(label, relationship, next))
+  }
+
+  // An empty label removes it
+  const setRelationshipLabel = (id: string, text: string) => {
+    const label = text.trim()
+    if (relationships.some((r) => r.id === id && (r.label ?? "") === label)) return
+
+    updateRelationshipData(id, "Edit Relationship Label", ({ label: _, ...relationship }) =>
+      label ? { ...relationship, label } : relationship,
+    )
+  }
+
+  const changeRelationshipType = (id: string, type: RelationshipType) => {
+    updateRelationshipData(id, "Change Relationship Type", (relationship) => ({ ...relationship, type }))
+  }
+
+  const reverseRelationship = (id: string) => {
+    updateRelationshipData(id, "Reverse Relationship", (relationship) => ({
+      ...relationship,
+      sourceId: relationship.targetId,
+      targetId: relationship.sourceId,
+    }))
+  }
+
+  const deleteRelationship = (id: string) => {
+    if (!relationships.some((relationship) => relationship.id === id)) return
+
+    history.execute(deleteRelationshipCommand(graph, id))
+  }
+
+  const findNodeAt = (clientX: number, clientY: number) => {
+    const pointer = clientToContent(clientX, clientY)
+    return nodes.find((node) => rectContainsPoint(calculateNodeBoundary(node.text, node.x, node.y), pointer)) ?? null
+  }
+
+  // Draw a relationship from a node to wherever the pointer goes. Dragging the node's handle connects on
+  // release (`mouseup`); after picking a type from the menu the next click does (`mousedown`). Escape or
+  // ending anywhere but another node cancels.
+  const startConnecting = (
+    sourceId: string,
+    type: RelationshipType,
+    from: { clientX: number; clientY: number },
+    endEvent: "mouseup" | "mousedown",
+  ) => {
+    setConnection({ sourceId, type, pointer: clientToContent(from.clientX, from.clientY) })
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const pointer = clientToContent(moveEvent.clientX, moveEvent.clientY)
+      setConnection((prev) => prev && { ...prev, pointer })
+    }
+
+    const finish = () => {
+      document.removeEventListener("mousemove", handleMouseMove)
+      document.removeEventListener(endEvent, handleEnd, true)
+      window.removeEventListener("keydown", handleKeyDown)
+      setConnection(null)
+    }
+
+    const handleEnd = (e: MouseEvent) => {
+      // Captured before React sees it, so the click doesn't also select, drag or pan
+      e.stopPropagation()
+      finish()
+      const target = findNodeAt(e.clientX, e.clientY)
+      if (target && e.button === 0) addRelationship(sourceId, target.id, type)
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") finish()
+    }
+
+    document.addEventListener("mousemove", handleMouseMove)
+    document.addEventListener(endEvent, handleEnd, true)
+    window.addEventListener("keydown", handleKeyDown)
+  }
+
+  const togglePinned = (id: string) => {
+    const node = nodes.find((n) => n.id === id)
+    if (!node) return
+
+    history.execute(setNodePinnedCommand(id, !node.pinned))
+  }
+
+  // Put the given nodes in a category (or none) as one undoable step
+  const setNodesCategory = (ids: string[], categoryId: string | undefined) => {
+    const commands = nodes
+      .filter((node) => ids.includes(node.id) && node.categoryId !== categoryId)
+      .map((node) => setNodeCategoryCommand(node.id, node.categoryId, categoryId))
+    if (commands.length === 0) return
+
+    const label = categoryId ? "Set Node Category" : "Clear Node Category"
+    history.execute(commands.length === 1 ? commands[0] : batchCommand(label, commands))
+  }
+
+  const saveCategories = (categories: CategoryData[]) => {
+    if (JSON.stringify(categories) !== JSON.stringify(graph.categories)) {
+      history.execute(setCategoriesCommand(graph, categories))
+    }
+    setIsCategoriesOpen(false)
+  }
+
+  // Tidy the whole map with a force simulation that keeps pinned nodes in place. Elements glide to their new
+  // positions, which are then applied as a single undoable step.
+  const autoLayout = () => {
+    if (isLiveMode || isLayingOut) return
+
+    const positions = computeAutoLayout(graph, {
+      pinnedIds: new Set(nodes.filter((node) => node.pinned).map((node) => node.id)),
+    })
+    if (positions.size === 0) return
+
+    const tracks = [
+      ...nodes.map((node) => ({ id: node.id, from: { x: node.x, y: node.y }, refs: nodeRefsMap })),
+      ...signals.map((signal) => ({ id: signal.id, from: { x: signal.x, y: signal.y }, refs: signalRefsMap })),
+    ].flatMap((track) => {
+      const to = positions.get(track.id)
+      return to ? [{ ...track, to }] : []
+    })
+    const commands = tracks.map(({ id, from, to }) =>
+      nodes.some((node) => node.id === id) ? moveNodeCommand(id, from, to) : moveSignalCommand(id, from, to),
+    )
+
+    const progress = { value: 0 }
+    setIsLayingOut(true)
+    layoutTweenRef.current = gsap.to(progress, {
+      value: 1,
+      duration: AUTO_LAYOUT_DURATION,
+      ease: "power2.inOut",
+      onUpdate: () => {
+        tracks.forEach(({ id, from, to, refs }) => {
+          const position = {
+            x: from.x + (to.x - from.x) * progress.value,
+            y: from.y + (to.y - from.y) * progress.value,
           }
+          gsap.set(`#${id}`, position)
+          refs.current.set(id, position)
+        })
+        getSignalLinks(graph).forEach(({ node, signal }) => {
+          updateLine(node.id, signal.id)
+        })
+        getRelationshipEnds(graph).forEach(updateRelationship)
+      },
+      onInterrupt: () => {
+        setIsLayingOut(false)
+      },
+      onComplete: () => {
+        layoutTweenRef.current = null
+        setIsLayingOut(false)
+        history.execute(batchCommand("Auto-layout", commands))
+      },
+    })
+  }
+
+  // Apply new positions from an alignment tool as one undoable step
+  const moveElements = (label: string, positions: Map<string, Position>) => {
+    const commands = [...positions].flatMap(([id, to]) => {
+      const element = locateElement(graph, id)
+      if (!element) return []
+
+      const { x, y } = element.type === "node" ? element.node : element.signal
+      return [element.type === "node" ? moveNodeCommand(id, { x, y }, to) : moveSignalCommand(id, { x, y }, to)]
+    })
+    if (commands.length === 0) return
+
+    history.execute(batchCommand(label, commands))
+  }
+
+  const alignSelection = (mode: AlignMode) => {
+    moveElements(`Align ${ALIGN_LABELS[mode]}`, alignElements(graph, selectedIds, mode))
+  }
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    moveElements(`Distribute ${DISTRIBUTE_LABELS[axis]}`, distributeElements(graph, selectedIds, axis))
+  }
+
+  const toggleGrid = () => {
+    const enabled = !isGridEnabled
+    setIsGridEnabled(enabled)
+    localStorage.setItem(GRID_PREFERENCE_KEY, String(enabled))
+  }
+
+  // Move the selection by a few pixels; repeated nudges of the same selection undo as one step
+  const nudgeSelection = (dx: number, dy: number) => {
+    const commands = selectedIds
+      .map((id) => locateElement(graph, id))
+      .filter((element): element is ElementLocation => element !== null)
+      .map((element) => {
+        const { id, x, y } = element.type === "node" ? element.node : element.signal
+        const to = { x: x + dx, y: y + dy }
+        return element.type === "node" ? moveNodeCommand(id, { x, y }, to) : moveSignalCommand(id, { x, y }, to)
+      })
+    if (commands.length === 0) return
+
+    history.execute({
+      ...batchCommand("Nudge Selection", commands),
+      mergeKey: `nudge:${[...selectedIds].sort().join(",")}`,
+    })
+  }
+
+  // Command palette actions
+  const addNodeAtViewCenter = () => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return
+
+    const center = clientToContent(rect.left + rect.width / 2, rect.top + rect.height / 2)
+    setSelectedIds([addNode(center.x, center.y)])
+  }
+
+  const selectedElement = selectedIds.length === 1 ? locateElement(graph, selectedIds[0]) : null
+  const contextSignal = contextMenu.type === "signal" ? signals.find((s) => s.id === contextMenu.id) : undefined
+  const contextRelationship =
+    contextMenu.type === "relationship" ? relationships.find((r) => r.id === contextMenu.id) : undefined
+
+  // Relationship being drawn: from the edge of its source node to the pointer, and the node it would connect to
+  const connectionSource = connection ? nodes.find((node) => node.id === connection.sourceId) : undefined
+  const connectionStart =
+    connection && connectionSource
+      ? findNearestBoundaryPoint(
+          calculateNodeBoundary(connectionSource.text, connectionSource.x, connectionSource.y),
+          connection.pointer,
+        )
+      : null
+  const connectionTargetId = connection
+    ? nodes.find(
+        (node) =>
+          node.id !== connection.sourceId &&
+          rectContainsPoint(calculateNodeBoundary(node.text, node.x, node.y), connection.pointer),
+      )?.id
+    : undefined
+
+  // Inline text editing
+  const startInlineEdit = (id: string) => {
+    if (isLiveMode) return
+
+    const element = locateElement(graph, id)
+    if (!element) return
+
+    setInlineEdit({ id, text: element.type === "node" ? element.node.text : element.signal.text })
+  }
+
+  const commitInlineEdit = () => {
+    if (!inlineEdit) return
+
+    const element = locateElement(graph, inlineEdit.id)
+    const text = inlineEdit.text.trim()
+    setInlineEdit(null)
+    // Clearing the text cancels rather than leaving an invisible element behind
+    if (!element || !text) return
+
+    if (element.type === "node") {
+      updateNodeText(element.node.id, text)
+    } else {
+      updateSignalText(element.signal.id, text)
+    }
+  }
+
+  // Overlay the editor on the element's text at its current screen position and zoom
+  const renderInlineEditor = () => {
+    const element = inlineEdit && locateElement(displayGraph, inlineEdit.id)
+    if (!inlineEdit || !element) return null
+
+    const { x, y, text } = element.type === "node" ? element.node : element.signal
+    const boundary =
+      element.type === "node" ? calculateNodeBoundary(text, x, y) : calculateSignalBoundary(text, x, y)
+
+    return (
+      <InlineTextEditor
+        value={inlineEdit.text}
+        multiline={element.type === "signal"}
+        left={x * viewport.scale + viewport.x}
+        top={y * viewport.scale + viewport.y}
+        width={Math.max(boundary.width, 120) * viewport.scale}
+        fontSize={(element.type === "node" ? 16 : 12) * viewport.scale}
+        fontWeight={element.type === "node" ? "bold" : "normal"}
+        color={
+          element.type === "node"
+            ? nodeColors.get(element.node.id) ?? DEFAULT_NODE_COLOR
+            : getSignalColor(element.signal, nodeColors)
         }
-        return node
-      }),
+        onChange={(value) => setInlineEdit({ id: inlineEdit.id, text: value })}
+        onCommit={commitInlineEdit}
+        onCancel={() => setInlineEdit(null)}
+      />
     )
+  }
 
-    // Remove from tracking map
-    signalRefsMap.current.delete(id)
+  const renameSelected = () => {
+    if (!selectedElement) return
+
+    const { x, y, id } = selectedElement.type === "node" ? selectedElement.node : selectedElement.signal
+    centerOnPoint({ x, y })
+    startInlineEdit(id)
+  }
+
+  // Center the view on a layout issue and select the elements involved
+  const focusLayoutIssue = (issue: LayoutIssue) => {
+    centerOnPoint(issue.focus)
+    setSelectedIds(issue.elementIds.filter((id) => locateElement(graph, id)))
+  }
+
+  const jumpToNode = (id: string) => {
+    const node = nodes.find((n) => n.id === id)
+    if (!node) return
+
+    centerOnPoint(node)
+    setSelectedIds([id])
+  }
+
+  const deleteSelection = () => {
+    if (selectedIds.length === 0) return
+
+    history.execute(deleteElementsCommand(graph, selectedIds))
+    setSelectedIds([])
+  }
+
+  const duplicateSelection = () => {
+    if (selectedIds.length === 0) return
+
+    const stamp = Date.now()
+    let count = 0
+    const { command, copyIds } = duplicateElementsCommand(
+      graph,
+      selectedIds,
+      DUPLICATE_OFFSET,
+      (prefix) => `${prefix}-${stamp}-${count++}`,
+    )
+    history.execute(command)
+    setSelectedIds(copyIds)
+  }
+
+  // Click selects an element, shift-click toggles it in the selection
+  const handleElementMouseDown = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation() // Prevent viewport dragging when clicking on a node or signal
+    if (isLiveMode || e.button !== 0) return
+
+    if (e.shiftKey) {
+      setSelectedIds((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]))
+      return
+    }
+
+    // Dragging a selected element moves the whole selection
+    const group = selectedIds.includes(id) ? selectedIds : [id]
+    if (!selectedIds.includes(id)) {
+      setSelectedIds([id])
+    }
+    handleDragStart(e, group, id)
   }
 
   // Drag operations
-  const handleDragStart = (e: React.MouseEvent, id: string, type: "node" | "signal", parentId?: string) => {
+  // The anchor is the element under the pointer; with the grid on, it's the one that lands on grid points
+  const handleDragStart = (e: React.MouseEvent, ids: string[], anchorId: string) => {
     if (isLiveMode) return
 
     const svgRect = svgRef.current?.getBoundingClientRect()
@@ -660,188 +1338,400 @@ export default function NodeMap() {
     const startX = e.clientX
     const startY = e.clientY
 
-    let element: NodeData | SignalData | undefined
+    const elements = ids
+      .map((id) => locateElement(graph, id))
+      .filter((element): element is ElementLocation => element !== null)
+      .map((element) => {
+        const { x, y } = element.type === "node" ? element.node : element.signal
+        return { ...element, initial: { x, y } }
+      })
+    if (elements.length === 0) return
 
-    if (type === "node") {
-      element = nodes.find((node) => node.id === id)
-    } else {
-      const parentNode = nodes.find((node) => node.id === parentId)
-      element = parentNode?.signals.find((signal) => signal.id === id)
-    }
+    // Screen-space mouse deltas shrink or grow with the zoom level
+    const scale = viewport.scale
 
-    if (!element) return
+    // The whole gesture is recorded as a single history entry on mouse up
+    let lastDx = 0
+    let lastDy = 0
 
-    const initialX = element.x
-    const initialY = element.y
+    // Holding Ctrl (Cmd on a Mac) moves freely, without snapping
+    const snap = createDragSnapper(graph, ids, anchorId, {
+      gridSize: isGridEnabled ? GRID_SIZE : null,
+      threshold: GUIDE_SNAP_DISTANCE / scale,
+    })
+
+    // Signals (and only signals) can be dropped onto a node's text to move them to it, or with Alt held
+    // to link them to it as well
+    const draggedSignals = elements.flatMap((element) => (element.type === "signal" ? [element.signal] : []))
+    const canDrop = draggedSignals.length === elements.length
+    let dropTarget: NodeData | null = null
+
+    const findDropTarget = (clientX: number, clientY: number) => {
+      const pointer = clientToContent(clientX, clientY)
+      return (
+        nodes.find(
+          (node) =>
+            rectContainsPoint(calculateNodeBoundary(node.text, node.x, node.y), pointer) &&
+            draggedSignals.some((signal) => !signal.nodeIds.includes(node.id)),
+        ) ?? null
+      )
+    }
 
     const handleMouseMove = (moveEvent: MouseEvent) => {
-      const dx = moveEvent.clientX - startX
-      const dy = moveEvent.clientY - startY
-
-      const newX = initialX + dx
-      const newY = initialY + dy
-
-      if (type === "node") {
-        // Update node position
-        setNodes((prev) =>
-          prev.map((node) => {
-            if (node.id === id) {
-              return { ...node, x: newX, y: newY }
-            }
-            return node
-          }),
-        )
+      const rawDx = (moveEvent.clientX - startX) / scale
+      const rawDy = (moveEvent.clientY - startY) / scale
+      const snapped = moveEvent.ctrlKey || moveEvent.metaKey ? null : snap(rawDx, rawDy)
+      const dx = snapped?.dx ?? rawDx
+      const dy = snapped?.dy ?? rawDy
+      lastDx = dx
+      lastDy = dy
+      setGuides(snapped?.guides ?? [])
+
+      if (canDrop) {
+        const target = findDropTarget(moveEvent.clientX, moveEvent.clientY)
+        if (target?.id !== dropTarget?.id) {
+          dropTarget = target
+          setDropTargetId(target?.id ?? null)
+        }
+      }
+
+      const positions = new Map(
+        elements.map((element) => [
+          element.type === "node" ? element.node.id : element.signal.id,
+          { x: element.initial.x + dx, y: element.initial.y + dy },
+        ]),
+      )
 
-        // Update node position in DOM and tracking map
-        gsap.set(`#${id}`, { x: newX, y: newY })
-        nodeRefsMap.current.set(id, { x: newX, y: newY })
+      // Update positions in state
+      setGraph((prev) => ({
+        ...prev,
+        nodes: prev.nodes.map((node) => ({ ...node, ...positions.get(node.id) })),
+        signals: prev.signals.map((signal) => ({ ...signal, ...positions.get(signal.id) })),
+      }))
 
-        // Update all connecting lines for this node
-        const node = nodes.find((n) => n.id === id)
-        if (node) {
-          node.signals.forEach((signal) => {
-            updateLine(id, signal.id)
+      // Update positions in the DOM and tracking maps, then every line touching a moved element
+      positions.forEach((position, id) => {
+        gsap.set(`#${id}`, position)
+      })
+      elements.forEach((element) => {
+        if (element.type === "node") {
+          nodeRefsMap.current.set(element.node.id, positions.get(element.node.id)!)
+          getNodeSignals(signals, element.node.id).forEach((signal) => {
+            updateLine(element.node.id, signal.id)
+          })
+          getNodeRelationships(graph, element.node.id).forEach(updateRelationship)
+        } else {
+          signalRefsMap.current.set(element.signal.id, positions.get(element.signal.id)!)
+          element.signal.nodeIds.forEach((nodeId) => {
+            updateLine(nodeId, element.signal.id)
           })
         }
-      } else if (parentId) {
-        // Update signal position
-        setNodes((prev) =>
-          prev.map((node) => {
-            if (node.id === parentId) {
-              return {
-                ...node,
-                signals: node.signals.map((signal) => {
-                  if (signal.id === id) {
-                    return { ...signal, x: newX, y: newY }
-                  }
-                  return signal
-                }),
-              }
-            }
-            return node
-          }),
-        )
+      })
+    }
 
-        // Update signal position in DOM and tracking map
-        gsap.set(`#${id}`, { x: newX, y: newY })
-        signalRefsMap.current.set(id, { x: newX, y: newY })
+    const handleMouseUp = (upEvent: MouseEvent) => {
+      document.removeEventListener("mousemove", handleMouseMove)
+      document.removeEventListener("mouseup", handleMouseUp)
+      setDropTargetId(null)
+      setGuides([])
 
-        // Update the connecting line
-        updateLine(parentId, id)
+      if (lastDx === 0 && lastDy === 0) return
+
+      if (dropTarget) {
+        dropOnNode(dropTarget, upEvent.altKey)
+        return
       }
+
+      const commands = elements.map((element) => {
+        const to = { x: element.initial.x + lastDx, y: element.initial.y + lastDy }
+        return element.type === "node"
+          ? moveNodeCommand(element.node.id, element.initial, to)
+          : moveSignalCommand(element.signal.id, element.initial, to)
+      })
+      history.record(commands.length === 1 ? commands[0] : batchCommand("Move Selection", commands))
     }
 
-    const handleMouseUp = () => {
-      document.removeEventListener("mousemove", handleMouseMove)
-      document.removeEventListener("mouseup", handleMouseUp)
+    // Moved signals fan out around the node and link to it alone. Linked ones return to where the drag
+    // started, now with a line to the node too. Signals already linked to it keep their dragged position.
+    const dropOnNode = (target: NodeData, link: boolean) => {
+      const moves = draggedSignals
+        .filter((signal) => signal.nodeIds.includes(target.id))
+        .map((signal) =>
+          moveSignalCommand(signal.id, { x: signal.x, y: signal.y }, { x: signal.x + lastDx, y: signal.y + lastDy }),
+        )
+
+      let siblingCount = getNodeSignals(signals, target.id).length
+      const relinks = draggedSignals
+        .filter((signal) => !signal.nodeIds.includes(target.id))
+        .map((signal) =>
+          link
+            ? setSignalNodesCommand("Link Signal to Node", signal, [...signal.nodeIds, target.id])
+            : setSignalNodesCommand(
+                "Move Signal to Node",
+                signal,
+                [target.id],
+                nextSignalPosition(target, siblingCount++),
+              ),
+        )
+
+      // The drag already applied the moves; only the relinking is left to apply
+      setGraph((prev) => relinks.reduce((state, command) => command.apply(state), prev))
+      history.record(
+        moves.length === 0 && relinks.length === 1
+          ? relinks[0]
+          : batchCommand(link ? "Link Signals to Node" : "Move Signals to Node", [...moves, ...relinks]),
+      )
     }
 
     document.addEventListener("mousemove", handleMouseMove)
     document.addEventListener("mouseup", handleMouseUp)
   }
 
-  // Reset viewport to center on all nodes
-  const resetViewport = () => {
-    if (nodes.length === 0) {
-      setViewportOffset({ x: 0, y: 0 })
-      return
-    }
+  // Center the content at 100% zoom
+  const resetZoom = () => {
+    centerOnBounds(contentBounds)
+  }
 
-    // Calculate the bounding box of all nodes and signals
-    let minX = Number.POSITIVE_INFINITY,
-      minY = Number.POSITIVE_INFINITY,
-      maxX = Number.NEGATIVE_INFINITY,
-      maxY = Number.NEGATIVE_INFINITY
+  // Scale and center the content so all of it is visible
+  const fitContentToViewport = () => {
+    fitToBounds(contentBounds)
+  }
 
-    nodes.forEach((node) => {
-      minX = Math.min(minX, node.x)
-      minY = Math.min(minY, node.y)
-      maxX = Math.max(maxX, node.x)
-      maxY = Math.max(maxY, node.y)
-
-      node.signals.forEach((signal) => {
-        minX = Math.min(minX, signal.x)
-        minY = Math.min(minY, signal.y)
-        maxX = Math.max(maxX, signal.x)
-        maxY = Math.max(maxY, signal.y)
-      })
-    })
+  // Scale and center the selected nodes and signals, with the same padding as fitting the whole map
+  const zoomToSelection = () => {
+    if (selectedIds.length === 0) return
+    const selected = new Set(selectedIds)
+    fitToBounds(
+      calculateContentBounds(
+        {
+          ...graph,
+          nodes: nodes.filter((node) => selected.has(node.id)),
+          signals: signals.filter((signal) => selected.has(signal.id)),
+        },
+        0,
+        0,
+      ),
+    )
+  }
+
+  const updateRevision = (next: string | null) => {
+    revisionRef.current = next
+    setRevision(next)
+  }
 
-    // Calculate center of the bounding box
-    const centerX = (minX + maxX) / 2
-    const centerY = (minY + maxY) / 2
+  // Run a save or restore once the ones already sent have finished. Two at once would both carry the same
+  // revision in If-Match, and the server would reject the second as a conflict with the first.
+  const queueServerRequest = <T,>(request: () => Promise<T>): Promise<T> => {
+    const result = serverRequestRef.current.then(request)
+    serverRequestRef.current = result.catch(() => undefined)
+    return result
+  }
 
-    // Calculate center of the viewport
-    const viewportCenterX = svgSize.width / 2
-    const viewportCenterY = svgSize.height / 2
+  // Save to the project's map file. The save only goes through if the map is still at the revision
+  // we loaded (or last saved); otherwise the conflict dialog takes over. Resolves to whether it saved.
+  // Silent saves (autosave) report failures through the save status instead of alerts.
+  const saveToProject = ({
+    baseRevision,
+    message,
+    silent = false,
+  }: { baseRevision?: string | null; message?: string; silent?: boolean } = {}): Promise<boolean> => {
+    const sentContent = content
+    const sentDocument = createNodeMapDocument(graph)
+
+    return queueServerRequest(async () => {
+      setIsSaving(true)
+      const base = baseRevision === undefined ? revisionRef.current : baseRevision
 
-    // Set offset to center the content
-    setViewportOffset({
-      x: viewportCenterX - centerX,
-      y: viewportCenterY - centerY,
+      try {
+        const response = await fetch(`/api/maps/${slug}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            ...(base && { "If-Match": `"${base}"` }),
+          },
+          body: JSON.stringify({ ...sentDocument, ...(message && { message }) }),
+        })
+
+        if (response.status === 409) {
+          const conflict: { revision: string; document: unknown } = await response.json()
+          const result = parseNodeMapDocument(conflict.document)
+          if (!result.success) {
+            throw new Error("Server returned an invalid map")
+          }
+          setSaveConflict({ graph: result.document, revision: conflict.revision })
+          return false
+        }
+        if (response.status === 400) {
+          const { issues = [] }: { issues?: SchemaIssue[] } = await response.json()
+          setFailedContent(sentContent)
+          if (!silent) {
+            alert(`The map was rejected by the server:\n${describeSchemaIssues(issues)}`)
+          }
+          return false
+        }
+        if (!response.ok) {
+          throw new Error("Failed to save to project file")
+        }
+
+        const saved: { revision: string } = await response.json()
+        updateRevision(saved.revision)
+        setSavedContent(sentContent)
+        setFailedContent(null)
+        return true
+      } catch (error) {
+        console.error("Error saving to project file:", error)
+        setFailedContent(sentContent)
+        if (!silent) {
+          alert("Failed to save to project file")
+        }
+        return false
+      } finally {
+        setIsSaving(false)
+      }
     })
   }
 
-  // Fit content to viewport
-  const fitContentToViewport = () => {
-    if (nodes.length === 0) {
-      setViewportOffset({ x: 0, y: 0 })
-      return
-    }
+  // Discard local edits in favour of the version on the server (undoable)
+  const reloadFromConflict = () => {
+    if (!saveConflict) return
+
+    history.execute(replaceGraphCommand("Reload Map", graph, saveConflict.graph))
+    updateRevision(saveConflict.revision)
+    setSavedContent(serializeGraph(saveConflict.graph))
+    setSaveConflict(null)
+  }
 
-    // Calculate the scale needed to fit the content
-    const scaleX = svgSize.width / contentBounds.width
-    const scaleY = svgSize.height / contentBounds.height
-    const scale = Math.min(scaleX, scaleY) * 0.9 // 90% to leave some margin
+  // Save again on top of the newer version, replacing it
+  const overwriteConflict = () => {
+    if (!saveConflict) return
 
-    // Calculate the center of the content
-    const contentCenterX = (contentBounds.minX + contentBounds.maxX) / 2
-    const contentCenterY = (contentBounds.minY + contentBounds.maxY) / 2
+    setSaveConflict(null)
+    saveToProject({ baseRevision: saveConflict.revision })
+  }
 
-    // Calculate the center of the viewport
-    const viewportCenterX = svgSize.width / 2
-    const viewportCenterY = svgSize.height / 2
+  const changeAutosave = (enabled: boolean) => {
+    setAutosave(enabled)
+    localStorage.setItem(AUTOSAVE_PREFERENCE_KEY, String(enabled))
+  }
 
-    // Set offset to center the content
-    setViewportOffset({
-      x: viewportCenterX - contentCenterX,
-      y: viewportCenterY - contentCenterY,
-    })
+  // Bring back edits from a draft left by an earlier session (undoable)
+  const recoverDraft = () => {
+    if (!recoverableDraft) return
 
-    // Note: In a real implementation, we would also apply the scale factor
-    // But for this example, we're just centering without scaling
+    history.execute(replaceGraphCommand("Recover Draft", graph, recoverableDraft.graph))
+    // Saving then still notices if someone else saved since the draft was made. Drafts without a revision
+    // replace the version that was just loaded.
+    updateRevision(recoverableDraft.baseRevision ?? revision)
+    dismissDraft()
   }
 
+  // Make an earlier revision current on the server and load it into the editor (undoable locally). Like a save,
+  // it's refused when someone else saved since the revision the editor is on.
+  const restoreRevision = (id: string) =>
+    queueServerRequest(async () => {
+      try {
+        const response = await fetch(`/api/maps/${slug}/history/${id}/restore`, {
+          method: "POST",
+          headers: revisionRef.current ? { "If-Match": `"${revisionRef.current}"` } : undefined,
+        })
+        if (response.status === 409) {
+          alert("The map was changed by someone else since it was loaded. Reload it before restoring a revision.")
+          return
+        }
+        if (!response.ok) {
+          throw new Error("Failed to restore revision")
+        }
+
+        const restored: { revision: string; document: unknown } = await response.json()
+        const result = parseNodeMapDocument(restored.document)
+        if (!result.success) {
+          throw new Error("Server returned an invalid map")
+        }
+        history.execute(replaceGraphCommand("Restore Revision", graph, result.document))
+        updateRevision(restored.revision)
+        setSavedContent(serializeGraph(result.document))
+      } catch (error) {
+        console.error("Error restoring revision:", error)
+        alert("Failed to restore the revision")
+      }
+    })
+
   // JSON import/export
   const exportToJson = (saveToFile: boolean = false) => {
-    const dataStr = JSON.stringify(nodes, null, 2)
-    
     if (saveToFile) {
-      // Save to project data file
-      fetch('/api/save-node-map', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: dataStr,
-      })
-      .then(response => {
-        if (!response.ok) {
-          throw new Error('Failed to save to project file')
-        }
-        alert('Successfully saved to project file')
-      })
-      .catch(error => {
-        console.error('Error saving to project file:', error)
-        alert('Failed to save to project file')
-      })
+      saveToProject()
     } else {
       // Export as download
+      const dataStr = JSON.stringify(createNodeMapDocument(graph), null, 2)
       const blob = new Blob([dataStr], { type: "application/json" })
-      saveAs(blob, "node-map.json")
+      saveAs(blob, `${slug}.json`)
+    }
+  }
+
+  // Draw the image from the map data rather than copying the canvas, so it covers the whole map at its resting
+  // positions whatever the current pan, zoom or live-mode animation. The renderer pulls in react-dom/server, so
+  // it's only loaded once an export starts.
+  const exportImage = async ({ format, scale, background }: ImageExportOptions) => {
+    setIsExportingImage(true)
+    try {
+      const { renderStaticMapSvg } = await import("./node-map/static-map-svg")
+      const svg = renderStaticMapSvg({
+        graph,
+        bounds: contentBounds,
+        backgroundHref: background ? await fetchAsDataUrl(STARRY_SKY_URL) : undefined,
+      })
+      if (format === "svg") {
+        saveAs(new Blob([svg], { type: "image/svg+xml" }), `${slug}.svg`)
+      } else {
+        const png = await svgToPng(svg, contentBounds.width, contentBounds.height, scale)
+        saveAs(png, scale === 1 ? `${slug}.png` : `${slug}@${scale}x.png`)
+      }
+      setImageExportFormat(null)
+    } catch (error) {
+      console.error("Failed to export image:", error)
+      alert("Failed to export the image. Please try again.")
+    } finally {
+      setIsExportingImage(false)
     }
   }
 
+  const exportToCsv = () => {
+    const blob = new Blob([formatCsv(exportSignalsToCsv(graph))], { type: "text/csv;charset=utf-8" })
+    saveAs(blob, `${slug}.csv`)
+  }
+
+  // Read the file and hand it to the import dialog, which maps its columns and previews the changes
+  const importFromCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again after cancelling
+    e.target.value = ""
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const rows = parseCsv((event.target?.result as string | undefined) ?? "")
+      if (rows.length < 2) {
+        alert("The CSV file has no rows to import. The first row should name the columns.")
+        return
+      }
+      setCsvImport({ name: file.name, rows })
+    }
+    reader.onerror = () => {
+      console.error("Failed to read file")
+      alert("Failed to read the file. Please try again.")
+    }
+    reader.readAsText(file)
+  }
+
+  const applyCsv = (plan: CsvImportPlan) => {
+    const imported = applyCsvImport(graph, plan)
+    history.execute(replaceGraphCommand("Import CSV", graph, imported))
+    setCsvImport(null)
+
+    // Bring new elements, which may land outside the view, into sight
+    fitToBounds(calculateContentBounds(imported, svgSize.width, svgSize.height))
+  }
+
   const importFromJson = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
@@ -850,29 +1740,31 @@ export default function NodeMap() {
     reader.onload = (event) => {
       try {
         if (event.target?.result) {
-          const importedNodes = JSON.parse(event.target.result as string)
-          
-          // Validate the imported data structure
-          if (!Array.isArray(importedNodes)) {
-            throw new Error("Invalid JSON format: expected an array of nodes")
+          // Validate the imported data structure, upgrading older bare-array files on the way
+          const result = parseNodeMapDocument(JSON.parse(event.target.result as string))
+          if (!result.success) {
+            alert(`Invalid node map JSON:\n${describeSchemaIssues(result.issues)}`)
+            return
           }
 
-          // Update nodes state
-          setNodes(importedNodes)
+          const imported = result.document
+
+          // Update map state
+          history.execute(replaceGraphCommand("Import JSON", graph, imported))
 
           // Update tracking maps
           nodeRefsMap.current.clear()
           signalRefsMap.current.clear()
           
-          importedNodes.forEach(node => {
+          imported.nodes.forEach(node => {
             nodeRefsMap.current.set(node.id, { x: node.x, y: node.y })
-            node.signals.forEach((signal: SignalData) => {
-              signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
-            })
+          })
+          imported.signals.forEach((signal) => {
+            signalRefsMap.current.set(signal.id, { x: signal.x, y: signal.y })
           })
 
-          // Reset viewport to center on the imported nodes
-          fitContentToViewport()
+          // Fit the viewport to the imported map (contentBounds has not caught up yet)
+          fitToBounds(calculateContentBounds(imported, svgSize.width, svgSize.height))
         }
       } catch (error) {
         console.error("Failed to import JSON:", error)
@@ -914,9 +1806,60 @@ export default function NodeMap() {
           </Button>
         </div>
         <div className="space-x-2">
-          {!isLiveMode && <></>}
+          {!isLiveMode && (
+            <>
+              <Button
+                size="icon"
+                onClick={undo}
+                disabled={!history.canUndo}
+                title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+              >
+                <Undo2 />
+              </Button>
+              <Button
+                size="icon"
+                onClick={redo}
+                disabled={!history.canRedo}
+                title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+              >
+                <Redo2 />
+              </Button>
+              <Button size="icon" onClick={autoLayout} disabled={isLayingOut} title="Auto-layout">
+                <Network />
+              </Button>
+              <Button
+                size="icon"
+                onClick={toggleGrid}
+                className={isGridEnabled ? "bg-blue-600 hover:bg-blue-500" : undefined}
+                title={isGridEnabled ? "Turn off snap to grid" : "Turn on snap to grid"}
+              >
+                <Grid3x3 />
+              </Button>
+              <Button size="icon" onClick={() => setIsCategoriesOpen(true)} title="Edit categories">
+                <Palette />
+              </Button>
+            </>
+          )}
           <Button onClick={() => exportToJson(false)}>Export JSON</Button>
-          <Button onClick={() => exportToJson(true)}>Save to Project</Button>
+          <Button onClick={exportToCsv}>Export CSV</Button>
+          <Button onClick={() => setImageExportFormat("png")}>Export Image</Button>
+          <SaveStatus state={saveState} autosave={autosave} onAutosaveChange={changeAutosave} />
+          <Button onClick={() => exportToJson(true)} disabled={isSaving}>
+            Save to Project
+          </Button>
+          <Button size="icon" onClick={() => setIsHistoryOpen(true)} title="Revision history">
+            <History />
+          </Button>
+          <Button size="icon" onClick={() => setIsPaletteOpen(true)} title={`Commands (${formatShortcut("palette")})`}>
+            <CommandIcon />
+          </Button>
+          <Button
+            size="icon"
+            onClick={() => setIsShortcutsOpen(true)}
+            title={`Keyboard shortcuts (${formatShortcut("shortcuts")})`}
+          >
+            <Keyboard />
+          </Button>
           <input
             id="import-json"
             type="file"
@@ -927,18 +1870,31 @@ export default function NodeMap() {
           <Button onClick={() => document.getElementById('import-json')?.click()}>
             Import JSON
           </Button>
+          <input id="import-csv" type="file" accept=".csv,text/csv" className="hidden" onChange={importFromCsv} />
+          <Button onClick={() => document.getElementById("import-csv")?.click()}>Import CSV</Button>
         </div>
       </div>
 
       <div className="w-full h-screen relative">
         {isLiveMode && (
-          <div className="absolute top-2 right-2 bg-green-600 text-white px-2 py-1 rounded-md text-sm z-10 opacity-80">
+          <div className="absolute top-2 left-2 bg-green-600 text-white px-2 py-1 rounded-md text-sm z-10 opacity-80">
             Live Mode Active
           </div>
         )}
         {!isLiveMode && (
           <div className="absolute top-2 left-2 bg-blue-600 text-white px-2 py-1 rounded-md text-sm z-10 opacity-80">
-            Edit Mode: {isDraggingViewport ? "Panning" : "Drag empty space to pan"}
+            Edit Mode:{" "}
+            {isDraggingViewport
+              ? "Panning"
+              : connection
+                ? "Choose the node to connect to, Esc to cancel"
+                : dropTargetId
+                  ? "Drop to move to this node, hold Alt to link"
+                  : marquee
+                    ? "Selecting"
+                    : selectedIds.length > 1
+                      ? `${selectedIds.length} selected`
+                      : "Drag empty space or scroll to pan, shift-drag to select, ctrl+scroll to zoom"}
           </div>
         )}
         <div 
@@ -950,110 +1906,258 @@ export default function NodeMap() {
         />
         <svg
           ref={svgRef}
-          className={`w-full h-full bg-transparent relative ${isLiveMode ? "cursor-default" : isDraggingViewport ? "cursor-grabbing" : "cursor-grab"}`}
+          className={`w-full h-full bg-transparent relative ${isLiveMode ? "cursor-default" : connection ? "cursor-crosshair" : isDraggingViewport ? "cursor-grabbing" : "cursor-grab"}`}
           onContextMenu={(e) => handleContextMenu(e, "canvas")}
-          onClick={closeContextMenu}
+          onClick={handleCanvasClick}
           onMouseDown={!isLiveMode ? handleViewportDragStart : undefined}
           onMouseMove={!isLiveMode ? handleViewportDragMove : undefined}
           onMouseUp={!isLiveMode ? handleViewportDragEnd : undefined}
           onMouseLeave={!isLiveMode ? handleViewportDragEnd : undefined}
+          style={{ touchAction: "none" }}
         >
           {/* SVG content is divided into multiple layers: 
               1. Fixed viewport boundary (blue dashed line)
               2. Content boundary (green dashed line)
               3. The content group that transforms during panning */}
 
-          {/* Content group that will be transformed for panning */}
+          {/* Content group that will be transformed for panning and zooming */}
           <g
             ref={contentGroupRef}
             className={!isLiveMode ? "panning-active" : ""}
-            transform={isLiveMode ? "" : `translate(${viewportOffset.x}, ${viewportOffset.y})`}
+            transform={transform}
           >
-            {/* Render connections */}
-            {nodes.map((node) =>
-              node.signals.map((signal) => (
-                <ConnectionLine
-                  key={`connection-${node.id}-${signal.id}`}
-                  nodeId={node.id}
-                  nodeText={node.text}
-                  nodeX={node.x}
-                  nodeY={node.y}
-                  signalId={signal.id}
-                  signalText={signal.text}
-                  signalX={signal.x}
-                  signalY={signal.y}
-                />
-              ))
+            <RelationshipMarkers />
+
+            {/* Snapping grid, drawn over the visible part of the map */}
+            {!isLiveMode && isGridEnabled && (
+              <>
+                <defs>
+                  <pattern id="snap-grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
+                    <circle cx={0} cy={0} r={1} fill="#374151" />
+                    <circle cx={GRID_SIZE} cy={0} r={1} fill="#374151" />
+                    <circle cx={0} cy={GRID_SIZE} r={1} fill="#374151" />
+                    <circle cx={GRID_SIZE} cy={GRID_SIZE} r={1} fill="#374151" />
+                  </pattern>
+                </defs>
+                <rect {...getViewportInContentCoords()} fill="url(#snap-grid)" pointerEvents="none" />
+              </>
+            )}
+
+            {/* Render relationships between nodes beneath the signal connections */}
+            {getRelationshipEnds(displayGraph).map((ends) => (
+              <RelationshipLine
+                key={ends.relationship.id}
+                id={ends.relationship.id}
+                type={ends.relationship.type}
+                label={ends.relationship.label}
+                sourceText={ends.source.text}
+                sourceX={ends.source.x}
+                sourceY={ends.source.y}
+                targetText={ends.target.text}
+                targetX={ends.target.x}
+                targetY={ends.target.y}
+                title={describeRelationship(ends)}
+                highlighted={contextMenu.show && contextRelationship?.id === ends.relationship.id}
+                dimmed={isDimmed(ends.source.id) || isDimmed(ends.target.id)}
+                onContextMenu={
+                  !isLiveMode ? (e) => handleContextMenu(e, "relationship", ends.relationship.id) : undefined
+                }
+              />
+            ))}
+
+            {/* Render connections, one per link */}
+            {getSignalLinks(displayGraph).map(({ node, signal }) => (
+              <ConnectionLine
+                key={`connection-${node.id}-${signal.id}`}
+                nodeId={node.id}
+                nodeText={node.text}
+                nodeX={node.x}
+                nodeY={node.y}
+                signalId={signal.id}
+                signalText={signal.text}
+                signalX={signal.x}
+                signalY={signal.y}
+                color={nodeColors.get(node.id)}
+                dimmed={isDimmed(node.id) || isDimmed(signal.id)}
+              />
+            ))}
+
+            {/* Relationship being drawn */}
+            {connection && connectionStart && (
+              <line
+                x1={connectionStart.x}
+                y1={connectionStart.y}
+                x2={connection.pointer.x}
+                y2={connection.pointer.y}
+                stroke={RELATIONSHIP_STYLES[connection.type].color}
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+                pointerEvents="none"
+              />
             )}
 
             {/* Render nodes */}
-            {nodes.map((node) => (
-              <g key={node.id}>
-                <text
-                  id={node.id}
-                  x={0}
-                  y={0}
-                  transform={`translate(${node.x}, ${node.y})`}
-                  fill="white"
-                  fontSize="16"
-                  fontWeight="bold"
-                  textAnchor="middle"
-                  dominantBaseline="middle"
-                  onContextMenu={(e) => handleContextMenu(e, "node", node.id)}
-                  onMouseDown={(e) => {
-                    e.stopPropagation() // Prevent viewport dragging when clicking on a node
-                    handleDragStart(e, node.id, "node")
-                  }}
-                  style={{ cursor: isLiveMode ? "default" : "move" }}
-                  className={isLiveMode ? "" : "hover:text-blue-300"}
-                >
-                  {node.text}
-                </text>
-
-                {/* Render signals */}
-                {node.signals.map((signal) => {
-                  const lines = calculateConnectionPoints(
-                    node.text,
-                    node.x,
-                    node.y,
-                    signal.text,
-                    signal.x,
-                    signal.y
-                  ).signalLines;
-
-                  return (
-                    <g
-                      key={signal.id}
-                      id={signal.id}
-                      transform={`translate(${signal.x}, ${signal.y})`}
-                      onContextMenu={(e) => handleContextMenu(e, "signal", signal.id, node.id)}
+            {displayGraph.nodes.map((node) => {
+              const boundary = calculateNodeBoundary(node.text, node.x, node.y)
+
+              return (
+                <g key={node.id} opacity={isDimmed(node.id) ? DIMMED_OPACITY : undefined}>
+                  {!isLiveMode && issueIds.has(node.id) && <SelectionOutline boundary={boundary} color={ISSUE_COLOR} />}
+                  {!isLiveMode && selectedIds.includes(node.id) && <SelectionOutline boundary={boundary} />}
+                  {(dropTargetId === node.id || connectionTargetId === node.id) && (
+                    <SelectionOutline boundary={boundary} color={DROP_TARGET_COLOR} />
+                  )}
+                  <text
+                    id={node.id}
+                    x={0}
+                    y={0}
+                    transform={`translate(${node.x}, ${node.y})`}
+                    fill={
+                      !isLiveMode && selectedIds.includes(node.id)
+                        ? SELECTED_FILL
+                        : nodeColors.get(node.id) ?? DEFAULT_NODE_COLOR
+                    }
+                    fontSize="16"
+                    fontWeight="bold"
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    onContextMenu={(e) => handleContextMenu(e, "node", node.id)}
+                    onMouseDown={(e) => handleElementMouseDown(e, node.id)}
+                    onDoubleClick={() => startInlineEdit(node.id)}
+                    visibility={inlineEdit?.id === node.id ? "hidden" : undefined}
+                    style={{ cursor: isLiveMode ? "default" : "move" }}
+                    className={isLiveMode ? "" : "hover:text-blue-300"}
+                  >
+                    {node.text}
+                  </text>
+                  {!isLiveMode && node.pinned && (
+                    <circle
+                      cx={boundary.x + boundary.width - 4}
+                      cy={boundary.y + 4}
+                      r={3}
+                      fill="#E5E7EB"
+                      pointerEvents="none"
+                    />
+                  )}
+                  {!isLiveMode && !connection && selectedIds.length === 1 && selectedIds[0] === node.id && (
+                    <circle
+                      cx={boundary.x + boundary.width + CONNECT_HANDLE_GAP}
+                      cy={node.y}
+                      r={5}
+                      fill={RELATIONSHIP_STYLES.enables.color}
+                      stroke="white"
+                      vectorEffect="non-scaling-stroke"
+                      style={{ cursor: "crosshair" }}
                       onMouseDown={(e) => {
-                        e.stopPropagation() // Prevent viewport dragging when clicking on a signal
-                        handleDragStart(e, signal.id, "signal", node.id)
+                        e.stopPropagation()
+                        if (e.button === 0) startConnecting(node.id, "enables", e, "mouseup")
                       }}
-                      style={{ cursor: isLiveMode ? "default" : "move" }}
-                      className={isLiveMode ? "" : "hover:text-green-300"}
                     >
-                      {lines.map((line: string, index: number) => (
-                        <text
-                          key={`${signal.id}-line-${index}`}
-                          x={0}
-                          y={index * 16} // 16px line height
-                          fill="#A4A1FF"
-                          fontSize="12"
-                          textAnchor="middle"
-                          dominantBaseline="middle"
-                        >
-                          {line}
-                        </text>
-                      ))}
-                    </g>
-                  );
-                })}
-              </g>
+                      <title>Drag onto another node to add a relationship</title>
+                    </circle>
+                  )}
+                </g>
+              )
+            })}
+
+            {/* Render signals */}
+            {displayGraph.signals.map((signal) => {
+              const isSelected = !isLiveMode && selectedIds.includes(signal.id)
+
+              return (
+                <g
+                  key={signal.id}
+                  id={signal.id}
+                  transform={`translate(${signal.x}, ${signal.y})`}
+                  opacity={isDimmed(signal.id) ? DIMMED_OPACITY : undefined}
+                  onContextMenu={(e) => handleContextMenu(e, "signal", signal.id)}
+                  onMouseDown={(e) => handleElementMouseDown(e, signal.id)}
+                  onDoubleClick={() => startInlineEdit(signal.id)}
+                  visibility={inlineEdit?.id === signal.id ? "hidden" : undefined}
+                  style={{ cursor: isLiveMode ? "default" : "move" }}
+                  className={isLiveMode ? "" : "hover:text-green-300"}
+                >
+                  {!isLiveMode && issueIds.has(signal.id) && (
+                    <SelectionOutline boundary={calculateSignalBoundary(signal.text, 0, 0)} color={ISSUE_COLOR} />
+                  )}
+                  {isSelected && <SelectionOutline boundary={calculateSignalBoundary(signal.text, 0, 0)} />}
+                  {getSignalLines(signal.text).map((line, index) => (
+                    <text
+                      key={`${signal.id}-line-${index}`}
+                      x={0}
+                      y={index * 16} // 16px line height
+                      fill={isSelected ? SELECTED_FILL : getSignalColor(signal, nodeColors)}
+                      fontSize="12"
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                    >
+                      {line}
+                    </text>
+                  ))}
+                </g>
+              )
+            })}
+
+            {guides.map((guide, index) => (
+              <line
+                key={index}
+                x1={guide.start.x}
+                y1={guide.start.y}
+                x2={guide.end.x}
+                y2={guide.end.y}
+                stroke={GUIDE_COLOR}
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+                pointerEvents="none"
+              />
             ))}
+
+            {marquee && (
+              <rect
+                {...rectFromPoints(marquee.start, marquee.end)}
+                fill="rgba(59, 130, 246, 0.1)"
+                stroke="#3B82F6"
+                strokeDasharray="4 2"
+                vectorEffect="non-scaling-stroke"
+                pointerEvents="none"
+              />
+            )}
           </g>
         </svg>
+        {inlineEdit && renderInlineEditor()}
+        <MapSearch
+          query={search.query}
+          onQueryChange={search.setQuery}
+          tags={search.tags}
+          availableTags={search.availableTags}
+          onToggleTag={search.toggleTag}
+          categories={graph.categories}
+          categoryIds={search.categoryIds}
+          onToggleCategory={search.toggleCategory}
+          matchCount={search.matches.length}
+          activeIndex={search.activeIndex}
+          onNext={search.next}
+          onPrevious={search.previous}
+          onClear={search.clear}
+        />
+        <MapLegend categories={graph.categories} onEdit={isLiveMode ? undefined : () => setIsCategoriesOpen(true)} />
+        {!isLiveMode && <LayoutIssuesPanel issues={layoutIssues} onFocus={focusLayoutIssue} />}
+        {!isLiveMode && (
+          <Minimap
+            graph={graph}
+            contentBounds={contentBounds}
+            viewportRect={getViewportInContentCoords()}
+            onPan={centerOnPoint}
+          />
+        )}
+        <ZoomControls
+          scale={viewport.scale}
+          onZoomIn={zoomIn}
+          onZoomOut={zoomOut}
+          onReset={resetZoom}
+          onFit={fitContentToViewport}
+        />
       </div>
 
       {/* Context Menu */}
@@ -1065,8 +2169,13 @@ export default function NodeMap() {
           svgY={contextMenu.y}
           type={contextMenu.type}
           id={contextMenu.id}
-          parentId={contextMenu.parentId}
+          linkedNodes={contextSignal && getSignalNodes(nodes, contextSignal)}
+          relationshipType={contextRelationship?.type}
+          pinned={contextMenu.type === "node" && nodes.some((node) => node.id === contextMenu.id && node.pinned)}
+          categories={graph.categories}
+          categoryId={nodes.find((node) => contextMenu.type === "node" && node.id === contextMenu.id)?.categoryId}
           currentText={contextMenu.currentText} // Pass current text for editing
+          selectionCount={selectedIds.length}
           onClose={closeContextMenu}
           onAddNode={() => {
             addNode(contextMenu.x, contextMenu.y)
@@ -1081,21 +2190,196 @@ export default function NodeMap() {
           onEditText={(text) => {
             if (contextMenu.type === "node" && contextMenu.id) {
               updateNodeText(contextMenu.id, text)
-            } else if (contextMenu.type === "signal" && contextMenu.id && contextMenu.parentId) {
-              updateSignalText(contextMenu.id, contextMenu.parentId, text)
+            } else if (contextMenu.type === "signal" && contextMenu.id) {
+              updateSignalText(contextMenu.id, text)
+            } else if (contextMenu.type === "relationship" && contextMenu.id) {
+              setRelationshipLabel(contextMenu.id, text)
             }
             closeContextMenu()
           }}
-          onDelete={() => {
+          onEditDetails={() => {
+            if (contextMenu.type === "signal" && contextMenu.id) {
+              setDetailsTarget(contextMenu.id)
+            }
+            closeContextMenu()
+          }}
+          onDuplicate={() => {
+            duplicateSelection()
+            closeContextMenu()
+          }}
+          onAlign={(mode) => {
+            alignSelection(mode)
+            closeContextMenu()
+          }}
+          onDistribute={(axis) => {
+            distributeSelection(axis)
+            closeContextMenu()
+          }}
+          onUnlink={(nodeId) => {
+            if (contextMenu.id) {
+              unlinkSignal(contextMenu.id, nodeId)
+            }
+            closeContextMenu()
+          }}
+          onTogglePinned={() => {
+            if (contextMenu.type === "node" && contextMenu.id) {
+              togglePinned(contextMenu.id)
+            }
+            closeContextMenu()
+          }}
+          onSetCategory={(categoryId) => {
+            if (selectedIds.length > 1) {
+              setNodesCategory(selectedIds, categoryId)
+            } else if (contextMenu.type === "node" && contextMenu.id) {
+              setNodesCategory([contextMenu.id], categoryId)
+            }
+            closeContextMenu()
+          }}
+          onEditCategories={() => {
+            setIsCategoriesOpen(true)
+            closeContextMenu()
+          }}
+          onAddRelationship={(type) => {
             if (contextMenu.type === "node" && contextMenu.id) {
+              startConnecting(
+                contextMenu.id,
+                type,
+                { clientX: contextMenu.clientX ?? 0, clientY: contextMenu.clientY ?? 0 },
+                "mousedown",
+              )
+            }
+            closeContextMenu()
+          }}
+          onChangeRelationshipType={(type) => {
+            if (contextMenu.id) {
+              changeRelationshipType(contextMenu.id, type)
+            }
+            closeContextMenu()
+          }}
+          onReverseRelationship={() => {
+            if (contextMenu.id) {
+              reverseRelationship(contextMenu.id)
+            }
+            closeContextMenu()
+          }}
+          onDelete={() => {
+            if (contextMenu.type === "relationship" && contextMenu.id) {
+              deleteRelationship(contextMenu.id)
+            } else if (selectedIds.length > 1) {
+              deleteSelection()
+            } else if (contextMenu.type === "node" && contextMenu.id) {
               deleteNode(contextMenu.id)
-            } else if (contextMenu.type === "signal" && contextMenu.id && contextMenu.parentId) {
-              deleteSignal(contextMenu.id, contextMenu.parentId)
+            } else if (contextMenu.type === "signal" && contextMenu.id) {
+              deleteSignal(contextMenu.id)
             }
             closeContextMenu()
           }}
         />
       )}
+
+      <SignalDetailsPanel
+        signal={signals.find((s) => s.id === detailsTarget) ?? null}
+        onClose={() => setDetailsTarget(null)}
+        onSave={(metadata) => {
+          if (detailsTarget) {
+            updateSignalMetadata(detailsTarget, metadata)
+          }
+          setDetailsTarget(null)
+        }}
+      />
+
+      <SaveConflictDialog
+        saved={saveConflict?.graph ?? null}
+        local={graph}
+        onReload={reloadFromConflict}
+        onOverwrite={overwriteConflict}
+        onCancel={() => setSaveConflict(null)}
+      />
+
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        nodes={nodes}
+        isLiveMode={isLiveMode}
+        selectionCount={selectedIds.length}
+        canAddSignal={selectedElement?.type === "node"}
+        canRename={selectedElement !== null}
+        onAddNode={addNodeAtViewCenter}
+        onAddSignal={() => {
+          if (selectedElement?.type === "node") addSignal(selectedElement.node.id)
+        }}
+        onRename={renameSelected}
+        onDuplicate={duplicateSelection}
+        onDelete={deleteSelection}
+        onJumpToNode={jumpToNode}
+        onToggleLiveMode={() => setIsLiveMode((prev) => !prev)}
+        onFitView={fitContentToViewport}
+        onZoomToSelection={zoomToSelection}
+        onAutoLayout={autoLayout}
+        onAlign={alignSelection}
+        onDistribute={distributeSelection}
+        isGridEnabled={isGridEnabled}
+        onToggleGrid={toggleGrid}
+        onEditCategories={() => setIsCategoriesOpen(true)}
+        onExportImage={setImageExportFormat}
+        onExportCsv={exportToCsv}
+        onPrint={() => window.open(`/maps/${slug}/print`, "_blank")}
+        onSave={() => saveToProject()}
+        onShowShortcuts={() => setIsShortcutsOpen(true)}
+      />
+
+      <ShortcutsDialog open={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
+
+      <ExportImageDialog
+        open={imageExportFormat !== null}
+        format={imageExportFormat ?? "png"}
+        bounds={contentBounds}
+        isExporting={isExportingImage}
+        onClose={() => setImageExportFormat(null)}
+        onExport={exportImage}
+      />
+
+      <CsvImportDialog file={csvImport} graph={graph} onClose={() => setCsvImport(null)} onImport={applyCsv} />
+
+      <CategoriesPanel
+        open={isCategoriesOpen}
+        categories={graph.categories}
+        nodeCounts={categoryNodeCounts}
+        onClose={() => setIsCategoriesOpen(false)}
+        onSave={saveCategories}
+      />
+
+      <AlertDialog open={recoverableDraft !== null}>
+        <AlertDialogContent className="bg-gray-900 border-gray-700 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Recover unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-400">
+              This browser kept a draft of the map with changes that were never saved
+              {recoverableDraft && ` (last edited ${new Date(recoverableDraft.savedAt).toLocaleString()})`}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              onClick={dismissDraft}
+              className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+            >
+              Discard draft
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={recoverDraft} className="bg-blue-600 text-white hover:bg-blue-500">
+              Recover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <HistoryPanel
+        slug={slug}
+        open={isHistoryOpen}
+        currentRevision={revision}
+        onClose={() => setIsHistoryOpen(false)}
+        onSaveVersion={(message) => saveToProject({ message })}
+        onRestore={restoreRevision}
+      />
     </div>
   )
 }
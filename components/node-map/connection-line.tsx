@@ -1,5 +1,7 @@
 import { memo } from "react"
 import { calculateConnectionPoints } from "@/lib/utils/text-boundary"
+import { DEFAULT_SIGNAL_COLOR } from "@/lib/utils/categories"
+import { DIMMED_OPACITY } from "@/lib/utils/search"
 
 interface ConnectionLineProps {
   nodeId: string
@@ -10,6 +12,10 @@ interface ConnectionLineProps {
   signalText: string
   signalX: number
   signalY: number
+  // The node's category color, if it has one
+  color?: string
+  // Faded out, e.g. when a search leaves out either end
+  dimmed?: boolean
 }
 
 export const ConnectionLine = memo(function ConnectionLine({
@@ -20,7 +26,9 @@ export const ConnectionLine = memo(function ConnectionLine({
   signalId,
   signalText,
   signalX,
-  signalY
+  signalY,
+  color = DEFAULT_SIGNAL_COLOR,
+  dimmed = false
 }: ConnectionLineProps) {
   // Calculate connection points based on text boundaries
   const { start, end, signalLines } = calculateConnectionPoints(
@@ -33,7 +41,7 @@ export const ConnectionLine = memo(function ConnectionLine({
   );
 
   return (
-    <g key={`connection-${nodeId}-${signalId}`}>
+    <g key={`connection-${nodeId}-${signalId}`} opacity={dimmed ? DIMMED_OPACITY : undefined}>
       <line
         key={`line-${nodeId}-${signalId}`}
         id={`line-${nodeId}-${signalId}`}
@@ -41,7 +49,7 @@ export const ConnectionLine = memo(function ConnectionLine({
         y1={start.y}
         x2={end.x}
         y2={end.y}
-        stroke="#A4A1FF"
+        stroke={color}
         strokeWidth={1.5}
       />
       <circle
@@ -50,7 +58,7 @@ export const ConnectionLine = memo(function ConnectionLine({
         cx={end.x}
         cy={end.y}
         r={3}
-        fill="#A4A1FF"
+        fill={color}
       />
     </g>
   );
@@ -125,7 +125,6 @@ export default function NodeMap() {
           svgY={contextMenu.y || 0}
           type={contextMenu.type}
           id={contextMenu.id}
-          parentId={contextMenu.parentId}
           currentText={contextMenu.currentText}
           onClose={closeContextMenu}
           onAddNode={handleContextMenuAction.onAddNode}
@@ -0,0 +1,145 @@
+import type React from "react"
+
+import { memo } from "react"
+import { calculateRelationshipPoints } from "@/lib/utils/text-boundary"
+import { DIMMED_OPACITY } from "@/lib/utils/search"
+import type { Position, RelationshipType } from "@/lib/types/node-types"
+
+// Stroke per relationship type: solid arrow for "enables", dashed for "converges", dotted for "competes"
+export const RELATIONSHIP_STYLES: Record<RelationshipType, { color: string; dashArray?: string }> = {
+  enables: { color: "#FBBF24" },
+  converges: { color: "#34D399", dashArray: "8 4" },
+  competes: { color: "#F87171", dashArray: "2 4" },
+}
+
+const ARROW_MARKER_ID = "relationship-arrow"
+
+// Arrowhead for directed relationships; render once inside every SVG that draws them
+export function RelationshipMarkers() {
+  return (
+    <defs>
+      <marker
+        id={ARROW_MARKER_ID}
+        viewBox="0 0 10 10"
+        refX={9}
+        refY={5}
+        markerWidth={10}
+        markerHeight={10}
+        markerUnits="userSpaceOnUse"
+        orient="auto"
+      >
+        <path d="M0,0 L10,5 L0,10 z" fill={RELATIONSHIP_STYLES.enables.color} />
+      </marker>
+    </defs>
+  )
+}
+
+// Label sits just above the middle of the edge
+function labelPosition(start: Position, end: Position): Position {
+  return { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 - 6 }
+}
+
+// Move a rendered relationship to new end points, e.g. while its nodes animate or are dragged
+export function moveRelationshipLine(id: string, start: Position, end: Position) {
+  for (const elementId of [`edge-${id}`, `edge-hit-${id}`]) {
+    const lineElement = document.getElementById(elementId)
+    lineElement?.setAttribute("x1", start.x.toString())
+    lineElement?.setAttribute("y1", start.y.toString())
+    lineElement?.setAttribute("x2", end.x.toString())
+    lineElement?.setAttribute("y2", end.y.toString())
+  }
+
+  const labelElement = document.getElementById(`edge-label-${id}`)
+  if (labelElement) {
+    const { x, y } = labelPosition(start, end)
+    labelElement.setAttribute("x", x.toString())
+    labelElement.setAttribute("y", y.toString())
+  }
+}
+
+interface RelationshipLineProps {
+  id: string
+  type: RelationshipType
+  label?: string
+  sourceText: string
+  sourceX: number
+  sourceY: number
+  targetText: string
+  targetX: number
+  targetY: number
+  // Tooltip, e.g. "Quantum Hardware enables Quantum Algorithms"
+  title: string
+  highlighted?: boolean
+  // Faded out, e.g. when a search leaves out either node
+  dimmed?: boolean
+  // Given in the editor, which also draws a wider invisible stroke to make the edge easy to hit
+  onContextMenu?: (e: React.MouseEvent) => void
+}
+
+export const RelationshipLine = memo(function RelationshipLine({
+  id,
+  type,
+  label,
+  sourceText,
+  sourceX,
+  sourceY,
+  targetText,
+  targetX,
+  targetY,
+  title,
+  highlighted = false,
+  dimmed = false,
+  onContextMenu,
+}: RelationshipLineProps) {
+  const { start, end } = calculateRelationshipPoints(sourceText, sourceX, sourceY, targetText, targetX, targetY)
+  const { color, dashArray } = RELATIONSHIP_STYLES[type]
+  const labelAt = labelPosition(start, end)
+
+  return (
+    <g opacity={dimmed ? DIMMED_OPACITY : undefined}>
+      <title>{title}</title>
+      <line
+        id={`edge-${id}`}
+        x1={start.x}
+        y1={start.y}
+        x2={end.x}
+        y2={end.y}
+        stroke={color}
+        strokeWidth={highlighted ? 3 : 1.5}
+        strokeDasharray={dashArray}
+        strokeLinecap="round"
+        markerEnd={type === "enables" ? `url(#${ARROW_MARKER_ID})` : undefined}
+        pointerEvents="none"
+      />
+      {onContextMenu && (
+        <line
+          id={`edge-hit-${id}`}
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          stroke="transparent"
+          strokeWidth={12}
+          onContextMenu={onContextMenu}
+          style={{ cursor: "context-menu" }}
+        />
+      )}
+      {label && (
+        <text
+          id={`edge-label-${id}`}
+          x={labelAt.x}
+          y={labelAt.y}
+          fill={color}
+          fontSize="11"
+          textAnchor="middle"
+          stroke="#030712"
+          strokeWidth={3}
+          paintOrder="stroke"
+          pointerEvents="none"
+        >
+          {label}
+        </text>
+      )}
+    </g>
+  )
+})
@@ -0,0 +1,8 @@
+import { renderToStaticMarkup } from "react-dom/server"
+import { StaticMap, type StaticMapProps } from "./static-map"
+
+// Serialize the map as a standalone SVG document. Kept apart from `StaticMap` because server components, such
+// as the print layout, may not import react-dom/server.
+export function renderStaticMapSvg(props: Omit<StaticMapProps, "className">): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderToStaticMarkup(<StaticMap {...props} />)}\n`
+}
@@ -0,0 +1,125 @@
+import { ConnectionLine } from "./connection-line"
+import { RelationshipLine, RelationshipMarkers } from "./relationship-line"
+import { getSignalLines } from "@/lib/utils/text-boundary"
+import { getSignalLinks } from "@/lib/utils/signal-links"
+import { describeRelationship, getRelationshipEnds } from "@/lib/utils/relationships"
+import { DEFAULT_NODE_COLOR, getNodeColors, getSignalColor } from "@/lib/utils/categories"
+import type { BoundingBox, NodeMapGraph } from "@/lib/types/node-types"
+
+// Tailwind's default sans stack, which the app renders map text in; spelled out so the SVG doesn't depend on
+// the page's CSS
+export const MAP_FONT_FAMILY =
+  'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"'
+
+export const STARRY_SKY_URL = "/images/starry-sky.jpg"
+
+// Page color behind the starry sky, which the app shows at half opacity
+const BACKGROUND_COLOR = "#000000"
+const BACKGROUND_OPACITY = 0.5
+
+export interface StaticMapProps {
+  graph: NodeMapGraph
+  // Area of the map to draw, in content coordinates
+  bounds: BoundingBox
+  // Image drawn behind the map, e.g. the starry sky as a data URL; without one the background is transparent
+  backgroundHref?: string
+  className?: string
+}
+
+// The whole map at its resting positions, with every color and font set on the elements themselves, so it
+// can be serialized as a standalone SVG or printed without the live animations
+export function StaticMap({ graph, bounds, backgroundHref, className }: StaticMapProps) {
+  const nodeColors = getNodeColors(graph)
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={bounds.width}
+      height={bounds.height}
+      viewBox={`${bounds.minX} ${bounds.minY} ${bounds.width} ${bounds.height}`}
+      fontFamily={MAP_FONT_FAMILY}
+      className={className}
+    >
+      <RelationshipMarkers />
+
+      {backgroundHref && (
+        <>
+          <rect x={bounds.minX} y={bounds.minY} width={bounds.width} height={bounds.height} fill={BACKGROUND_COLOR} />
+          <image
+            href={backgroundHref}
+            x={bounds.minX}
+            y={bounds.minY}
+            width={bounds.width}
+            height={bounds.height}
+            preserveAspectRatio="xMidYMid slice"
+            opacity={BACKGROUND_OPACITY}
+          />
+        </>
+      )}
+
+      {getRelationshipEnds(graph).map((ends) => (
+        <RelationshipLine
+          key={ends.relationship.id}
+          id={ends.relationship.id}
+          type={ends.relationship.type}
+          label={ends.relationship.label}
+          sourceText={ends.source.text}
+          sourceX={ends.source.x}
+          sourceY={ends.source.y}
+          targetText={ends.target.text}
+          targetX={ends.target.x}
+          targetY={ends.target.y}
+          title={describeRelationship(ends)}
+        />
+      ))}
+
+      {getSignalLinks(graph).map(({ node, signal }) => (
+        <ConnectionLine
+          key={`connection-${node.id}-${signal.id}`}
+          nodeId={node.id}
+          nodeText={node.text}
+          nodeX={node.x}
+          nodeY={node.y}
+          signalId={signal.id}
+          signalText={signal.text}
+          signalX={signal.x}
+          signalY={signal.y}
+          color={nodeColors.get(node.id)}
+        />
+      ))}
+
+      {graph.nodes.map((node) => (
+        <text
+          key={node.id}
+          x={node.x}
+          y={node.y}
+          fill={nodeColors.get(node.id) ?? DEFAULT_NODE_COLOR}
+          fontSize="16"
+          fontWeight="bold"
+          textAnchor="middle"
+          dominantBaseline="middle"
+        >
+          {node.text}
+        </text>
+      ))}
+
+      {graph.signals.map((signal) => (
+        <g key={signal.id} transform={`translate(${signal.x}, ${signal.y})`}>
+          {getSignalLines(signal.text).map((line, index) => (
+            <text
+              key={`${signal.id}-line-${index}`}
+              x={0}
+              y={index * 16} // 16px line height
+              fill={getSignalColor(signal, nodeColors)}
+              fontSize="12"
+              textAnchor="middle"
+              dominantBaseline="middle"
+            >
+              {line}
+            </text>
+          ))}
+        </g>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,12 @@
+"use client"
+
+import { Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+export function PrintButton() {
+  return (
+    <Button className="bg-blue-600 text-white hover:bg-blue-500" onClick={() => window.print()}>
+      <Printer /> Print
+    </Button>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { describeMapChange, diffNodeMaps } from "@/lib/utils/map-diff"
+import type { NodeMapGraph } from "@/lib/types/node-types"
+
+interface SaveConflictDialogProps {
+  // Map as currently saved on the server; null closes the dialog
+  saved: NodeMapGraph | null
+  local: NodeMapGraph
+  onReload: () => void
+  onOverwrite: () => void
+  onCancel: () => void
+}
+
+export function SaveConflictDialog({ saved, local, onReload, onOverwrite, onCancel }: SaveConflictDialogProps) {
+  const [showDiff, setShowDiff] = useState(false)
+
+  // Start collapsed for every new conflict
+  useEffect(() => {
+    if (saved) setShowDiff(false)
+  }, [saved])
+
+  const changes = showDiff && saved ? diffNodeMaps(saved, local) : []
+
+  return (
+    <Dialog open={saved !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>This map was changed elsewhere</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Someone saved a newer version since you opened the map. Reload it to discard your edits, or overwrite it
+            with your version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {showDiff && (
+          <div className="max-h-64 overflow-y-auto rounded-md border border-gray-700 p-3 text-sm">
+            <p className="text-xs text-gray-400 mb-2">Your version compared with the saved one</p>
+            {changes.length === 0 ? (
+              <p className="text-gray-400">The map contents are the same.</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {changes.map((change) => (
+                  <li key={`${change.element}:${change.kind}:${change.id}`}>{describeMapChange(change)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white sm:mr-auto"
+            onClick={() => setShowDiff((prev) => !prev)}
+          >
+            {showDiff ? "Hide differences" : "View differences"}
+          </Button>
+          <Button variant="outline" className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white" onClick={onReload}>
+            Reload
+          </Button>
+          <Button className="bg-red-600 text-white hover:bg-red-500" onClick={onOverwrite}>
+            Overwrite
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { AlertCircle, Check, CircleDot, Loader2 } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+
+export type SaveState = "saved" | "unsaved" | "saving" | "error"
+
+const stateDisplay = {
+  saved: { icon: Check, label: "Saved", className: "text-gray-400" },
+  unsaved: { icon: CircleDot, label: "Unsaved changes", className: "text-yellow-400" },
+  saving: { icon: Loader2, label: "Saving…", className: "text-gray-300" },
+  error: { icon: AlertCircle, label: "Save failed", className: "text-red-400" },
+}
+
+interface SaveStatusProps {
+  state: SaveState
+  autosave: boolean
+  onAutosaveChange: (enabled: boolean) => void
+}
+
+export function SaveStatus({ state, autosave, onAutosaveChange }: SaveStatusProps) {
+  const { icon: Icon, label, className } = stateDisplay[state]
+
+  return (
+    <div className="inline-flex items-center space-x-3 text-sm align-middle">
+      <span className={`inline-flex items-center space-x-1 ${className}`} role="status">
+        <Icon className={`h-4 w-4 ${state === "saving" ? "animate-spin" : ""}`} />
+        <span>{label}</span>
+      </span>
+      <span className="inline-flex items-center space-x-1">
+        <Switch id="autosave" checked={autosave} onCheckedChange={onAutosaveChange} className="scale-75" />
+        <Label htmlFor="autosave" className="text-gray-300">
+          Autosave
+        </Label>
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+// Single source for the editor's keyboard shortcuts, shown in the cheat sheet and the command palette
+export const EDITOR_SHORTCUTS = {
+  palette: { keys: ["Ctrl", "K"], description: "Open the command palette" },
+  shortcuts: { keys: ["?"], description: "Show keyboard shortcuts" },
+  search: { keys: ["Ctrl", "F"], description: "Search nodes and signals" },
+  save: { keys: ["Ctrl", "S"], description: "Save to project" },
+  undo: { keys: ["Ctrl", "Z"], description: "Undo" },
+  redo: { keys: ["Ctrl", "Shift", "Z"], description: "Redo" },
+  selectAll: { keys: ["Ctrl", "A"], description: "Select everything" },
+  clearSelection: { keys: ["Esc"], description: "Clear the selection" },
+  duplicate: { keys: ["Ctrl", "D"], description: "Duplicate the selection" },
+  delete: { keys: ["Delete"], description: "Delete the selection" },
+  nudge: { keys: ["←", "↑", "→", "↓"], description: "Nudge the selection by 1px" },
+  nudgeFar: { keys: ["Shift", "Arrow"], description: "Nudge the selection by 10px" },
+  addToSelection: { keys: ["Shift", "Click"], description: "Add to or remove from the selection" },
+  marquee: { keys: ["Shift", "Drag"], description: "Select with a marquee" },
+  moveToNode: { keys: ["Drag onto node"], description: "Move signals to another node" },
+  linkToNode: { keys: ["Alt", "Drag onto node"], description: "Also link signals to another node" },
+  connectNodes: { keys: ["Drag ● onto node"], description: "Add a relationship from the selected node" },
+  moveWithoutSnapping: { keys: ["Ctrl", "Drag"], description: "Move without snapping to guides or the grid" },
+  pan: { keys: ["Scroll"], description: "Pan the view" },
+  zoom: { keys: ["Ctrl", "Scroll"], description: "Zoom around the pointer" },
+  zoomToSelection: { keys: ["Shift", "2"], description: "Zoom to the selection" },
+}
+
+export type EditorShortcut = keyof typeof EDITOR_SHORTCUTS
+
+// Compact label for menus, e.g. "Ctrl+Shift+Z"
+export function formatShortcut(shortcut: EditorShortcut) {
+  return EDITOR_SHORTCUTS[shortcut].keys.join("+")
+}
+
+const sections: { title: string; shortcuts: EditorShortcut[] }[] = [
+  { title: "General", shortcuts: ["palette", "shortcuts", "search", "save", "undo", "redo"] },
+  { title: "Selection", shortcuts: ["addToSelection", "marquee", "selectAll", "clearSelection"] },
+  {
+    title: "Editing",
+    shortcuts: [
+      "duplicate",
+      "delete",
+      "nudge",
+      "nudgeFar",
+      "moveToNode",
+      "linkToNode",
+      "connectNodes",
+      "moveWithoutSnapping",
+    ],
+  },
+  { title: "View", shortcuts: ["pan", "zoom", "zoomToSelection"] },
+]
+
+interface ShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ShortcutsDialog({ open, onOpenChange }: ShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription className="text-gray-400">On macOS, use ⌘ in place of Ctrl.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {sections.map((section) => (
+            <div key={section.title}>
+              <p className="text-xs font-semibold uppercase text-gray-400 mb-1">{section.title}</p>
+              <ul className="space-y-1 text-sm">
+                {section.shortcuts.map((shortcut) => (
+                  <li key={shortcut} className="flex items-center justify-between gap-4">
+                    <span>{EDITOR_SHORTCUTS[shortcut].description}</span>
+                    <span className="flex space-x-1">
+                      {EDITOR_SHORTCUTS[shortcut].keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="min-w-[1.5rem] rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 text-center text-xs"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { CONFIDENCE_LABELS, MAX_CONFIDENCE, MIN_CONFIDENCE, signalMetadataSchema } from "@/lib/schema/node-map"
+import { pickSignalMetadata } from "@/lib/commands/node-map"
+import type { SignalData, SignalMetadata } from "@/lib/types/node-types"
+
+interface SignalDetailsPanelProps {
+  signal: SignalData | null
+  onClose: () => void
+  onSave: (metadata: SignalMetadata) => void
+}
+
+interface DetailsForm {
+  description: string
+  sources: string
+  observedAt: string
+  confidence: string
+  tags: string
+}
+
+function toForm(signal: SignalData | null): DetailsForm {
+  return {
+    description: signal?.description ?? "",
+    sources: signal?.sources?.join("\n") ?? "",
+    observedAt: signal?.observedAt ?? "",
+    confidence: signal?.confidence?.toString() ?? "none",
+    tags: signal?.tags?.join(", ") ?? "",
+  }
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+// Turn the form back into metadata, leaving empty fields unset
+function toMetadata(form: DetailsForm): SignalMetadata {
+  const sources = splitList(form.sources, /\n/)
+  const tags = splitList(form.tags, /,/)
+
+  return pickSignalMetadata({
+    description: form.description.trim() || undefined,
+    sources: sources.length > 0 ? sources : undefined,
+    observedAt: form.observedAt || undefined,
+    confidence: form.confidence === "none" ? undefined : Number(form.confidence),
+    tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+  })
+}
+
+export function SignalDetailsPanel({ signal, onClose, onSave }: SignalDetailsPanelProps) {
+  const [form, setForm] = useState<DetailsForm>(() => toForm(signal))
+  const [errors, setErrors] = useState<Partial<Record<keyof DetailsForm, string>>>({})
+
+  // Reset the form whenever a different signal is opened
+  useEffect(() => {
+    setForm(toForm(signal))
+    setErrors({})
+  }, [signal?.id])
+
+  const updateField = (field: keyof DetailsForm) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const metadata = toMetadata(form)
+    const result = signalMetadataSchema.safeParse(metadata)
+    if (!result.success) {
+      // Report the first problem for each field, e.g. "sources.1" belongs to the sources field
+      const fieldErrors: Partial<Record<keyof DetailsForm, string>> = {}
+      result.error.issues.forEach((issue) => {
+        const field = issue.path[0] as keyof DetailsForm
+        const item = typeof issue.path[1] === "number" ? ` (item ${issue.path[1] + 1})` : ""
+        fieldErrors[field] ??= `${issue.message}${item}`
+      })
+      setErrors(fieldErrors)
+      return
+    }
+
+    onSave(metadata)
+  }
+
+  const fieldError = (field: keyof DetailsForm) =>
+    errors[field] && <p className="text-xs text-red-400">{errors[field]}</p>
+
+  return (
+    <Sheet open={signal !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="bg-gray-900 border-gray-700 text-white overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Signal Details</SheetTitle>
+          <SheetDescription className="text-gray-400">{signal?.text}</SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="signal-description">Description</Label>
+            <Textarea
+              id="signal-description"
+              value={form.description}
+              onChange={(e) => updateField("description")(e.target.value)}
+              className="bg-white text-black"
+              placeholder="Why does this signal matter?"
+              rows={4}
+            />
+            {fieldError("description")}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="signal-sources">Sources</Label>
+            <Textarea
+              id="signal-sources"
+              value={form.sources}
+              onChange={(e) => updateField("sources")(e.target.value)}
+              className="bg-white text-black"
+              placeholder="One URL per line"
+              rows={3}
+            />
+            {fieldError("sources")}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="signal-observed-at">First observed</Label>
+            <Input
+              id="signal-observed-at"
+              type="date"
+              value={form.observedAt}
+              onChange={(e) => updateField("observedAt")(e.target.value)}
+              className="bg-white text-black"
+            />
+            {fieldError("observedAt")}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="signal-confidence">Confidence</Label>
+            <Select value={form.confidence} onValueChange={updateField("confidence")}>
+              <SelectTrigger id="signal-confidence" className="bg-white text-black">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not set</SelectItem>
+                {Array.from({ length: MAX_CONFIDENCE - MIN_CONFIDENCE + 1 }, (_, i) => MIN_CONFIDENCE + i).map(
+                  (level) => (
+                    <SelectItem key={level} value={level.toString()}>
+                      {level} – {CONFIDENCE_LABELS[level]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+            {fieldError("confidence")}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="signal-tags">Tags</Label>
+            <Input
+              id="signal-tags"
+              value={form.tags}
+              onChange={(e) => updateField("tags")(e.target.value)}
+              className="bg-white text-black"
+              placeholder="Comma-separated, e.g. neurotech, ethics"
+            />
+            {fieldError("tags")}
+          </div>
+
+          <SheetFooter className="pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="bg-gray-700 text-white hover:bg-gray-600 hover:text-white"
+              onClick={onClose}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 text-white hover:bg-blue-500">
+              Save
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  )
+}
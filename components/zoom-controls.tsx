@@ -0,0 +1,38 @@
+"use client"
+
+import { Maximize, Minus, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+interface ZoomControlsProps {
+  scale: number
+  onZoomIn: () => void
+  onZoomOut: () => void
+  onReset: () => void
+  onFit: () => void
+}
+
+export function ZoomControls({ scale, onZoomIn, onZoomOut, onReset, onFit }: ZoomControlsProps) {
+  const buttonClassName = "h-8 w-8 text-gray-300 hover:bg-gray-800 hover:text-white"
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 flex items-center space-x-1 bg-gray-900/80 border border-gray-700 rounded-md p-1">
+      <Button variant="ghost" size="icon" className={buttonClassName} onClick={onZoomOut} title="Zoom out">
+        <Minus />
+      </Button>
+      <Button
+        variant="ghost"
+        className="h-8 px-2 min-w-[4rem] text-xs text-gray-300 hover:bg-gray-800 hover:text-white"
+        onClick={onReset}
+        title="Reset zoom to 100%"
+      >
+        {Math.round(scale * 100)}%
+      </Button>
+      <Button variant="ghost" size="icon" className={buttonClassName} onClick={onZoomIn} title="Zoom in">
+        <Plus />
+      </Button>
+      <Button variant="ghost" size="icon" className={buttonClassName} onClick={onFit} title="Fit to content">
+        <Maximize />
+      </Button>
+    </div>
+  )
+}
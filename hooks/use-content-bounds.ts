@@ -1,15 +1,16 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import type { NodeData, BoundingBox } from "@/lib/types/node-types"
+import type { NodeMapGraph, BoundingBox } from "@/lib/types/node-types"
 import { calculateContentBounds } from "@/lib/utils/geometry"
 
 export function useContentBounds(
-  nodes: NodeData[],
+  graph: NodeMapGraph,
   svgWidth: number,
   svgHeight: number,
   viewportOffsetX: number,
   viewportOffsetY: number,
+  scale = 1,
 ) {
   const [contentBounds, setContentBounds] = useState<BoundingBox>({
     minX: 0,
@@ -21,27 +22,27 @@ export function useContentBounds(
   })
 
   useEffect(() => {
-    const bounds = calculateContentBounds(nodes, svgWidth, svgHeight)
+    const bounds = calculateContentBounds(graph, svgWidth, svgHeight)
     setContentBounds(bounds)
-  }, [nodes, viewportOffsetX, viewportOffsetY, svgWidth, svgHeight])
+  }, [graph, svgWidth, svgHeight])
 
-  // Get the transformed content bounds (adjusted for viewport offset)
+  // Get the transformed content bounds (adjusted for viewport offset and zoom)
   const getTransformedContentBounds = () => {
     return {
-      x: contentBounds.minX + viewportOffsetX,
-      y: contentBounds.minY + viewportOffsetY,
-      width: contentBounds.width,
-      height: contentBounds.height,
+      x: contentBounds.minX * scale + viewportOffsetX,
+      y: contentBounds.minY * scale + viewportOffsetY,
+      width: contentBounds.width * scale,
+      height: contentBounds.height * scale,
     }
   }
 
   // Get the viewport bounds in content coordinates
   const getViewportInContentCoords = () => {
     return {
-      x: -viewportOffsetX,
-      y: -viewportOffsetY,
-      width: svgWidth,
-      height: svgHeight,
+      x: -viewportOffsetX / scale,
+      y: -viewportOffsetY / scale,
+      width: svgWidth / scale,
+      height: svgHeight / scale,
     }
   }
 
@@ -51,4 +52,3 @@ export function useContentBounds(
     getViewportInContentCoords,
   }
 }
-
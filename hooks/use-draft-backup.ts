@@ -0,0 +1,88 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { createNodeMapDocument, parseNodeMapDocument } from "@/lib/schema/node-map"
+import type { NodeMapGraph } from "@/lib/types/node-types"
+
+export interface MapDraft {
+  graph: NodeMapGraph
+  // Revision the draft was edited on top of, so recovering it still detects concurrent saves
+  baseRevision: string | null
+  savedAt: string
+}
+
+// Debounce for draft writes; drags change the nodes on every mouse move
+const DRAFT_DELAY = 500
+
+function draftKey(slug: string) {
+  return `ftsg-map:draft:${slug}`
+}
+
+function readDraft(slug: string, initialGraph: NodeMapGraph): MapDraft | null {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = localStorage.getItem(draftKey(slug))
+    if (!stored) return null
+
+    const { document, baseRevision, savedAt } = JSON.parse(stored)
+    const result = parseNodeMapDocument(document)
+    // Drafts that match what was loaded have nothing to recover
+    if (
+      !result.success ||
+      JSON.stringify(createNodeMapDocument(result.document)) === JSON.stringify(createNodeMapDocument(initialGraph))
+    ) {
+      localStorage.removeItem(draftKey(slug))
+      return null
+    }
+    return { graph: result.document, baseRevision: baseRevision ?? null, savedAt }
+  } catch (error) {
+    console.error("Failed to read the local draft:", error)
+    return null
+  }
+}
+
+// Keep a copy of unsaved edits in localStorage so they survive a crash or a closed tab.
+// A draft left behind by an earlier session is offered back through `recoverableDraft`.
+export function useDraftBackup(
+  slug: string,
+  initialGraph: NodeMapGraph,
+  graph: NodeMapGraph,
+  baseRevision: string | null,
+  isDirty: boolean,
+) {
+  const [recoverableDraft, setRecoverableDraft] = useState<MapDraft | null>(() => readDraft(slug, initialGraph))
+
+  useEffect(() => {
+    // Don't overwrite an earlier draft until the user has decided what to do with it
+    if (recoverableDraft) return
+
+    if (!isDirty) {
+      localStorage.removeItem(draftKey(slug))
+      return
+    }
+
+    const timeoutId = setTimeout(() => {
+      try {
+        localStorage.setItem(
+          draftKey(slug),
+          JSON.stringify({ document: createNodeMapDocument(graph), baseRevision, savedAt: new Date().toISOString() }),
+        )
+      } catch (error) {
+        // Quota exceeded or storage disabled; the map itself is unaffected
+        console.error("Failed to back up the draft:", error)
+      }
+    }, DRAFT_DELAY)
+
+    return () => {
+      clearTimeout(timeoutId)
+    }
+  }, [slug, graph, baseRevision, isDirty, recoverableDraft])
+
+  // Close the recovery prompt; the current state is backed up from now on
+  const dismissDraft = useCallback(() => {
+    setRecoverableDraft(null)
+  }, [])
+
+  return { recoverableDraft, dismissDraft }
+}
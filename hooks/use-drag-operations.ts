@@ -4,19 +4,19 @@ import type React from "react"
 
 import { useCallback } from "react"
 import { gsap } from "gsap"
-import type { NodeData } from "@/lib/types/node-types"
+import type { NodeMapGraph } from "@/lib/types/node-types"
 
 export function useDragOperations(
-  nodes: NodeData[],
+  { nodes, signals }: NodeMapGraph,
   isLiveMode: boolean,
   updateNodePosition: (id: string, x: number, y: number) => void,
-  updateSignalPosition: (id: string, parentId: string, x: number, y: number) => void,
+  updateSignalPosition: (id: string, x: number, y: number) => void,
   updateNodePos: (id: string, x: number, y: number) => void,
   updateSignalPos: (id: string, x: number, y: number) => void,
   updateLine: (nodeId: string, signalId: string) => void,
 ) {
   const handleDragStart = useCallback(
-    (e: React.MouseEvent, id: string, type: "node" | "signal", parentId?: string) => {
+    (e: React.MouseEvent, id: string, type: "node" | "signal") => {
       if (isLiveMode) return
 
       const startX = e.clientX
@@ -30,8 +30,7 @@ export function useDragOperations(
         initialX = node.x
         initialY = node.y
       } else {
-        const parentNode = nodes.find((n) => n.id === parentId)
-        const signal = parentNode?.signals.find((s) => s.id === id)
+        const signal = signals.find((s) => s.id === id)
         if (!signal) return
         initialX = signal.x
         initialY = signal.y
@@ -53,22 +52,23 @@ export function useDragOperations(
           updateNodePos(id, newX, newY)
 
           // Update all connecting lines for this node
-          const node = nodes.find((n) => n.id === id)
-          if (node) {
-            node.signals.forEach((signal) => {
-              updateLine(id, signal.id)
-            })
-          }
-        } else if (parentId) {
+          signals.forEach((signal) => {
+            if (signal.nodeIds.includes(id)) updateLine(id, signal.id)
+          })
+        } else {
           // Update signal position in state
-          updateSignalPosition(id, parentId, newX, newY)
+          updateSignalPosition(id, newX, newY)
 
           // Update signal position in DOM and tracking map
           gsap.set(`#${id}`, { x: newX, y: newY })
           updateSignalPos(id, newX, newY)
 
-          // Update the connecting line
-          updateLine(parentId, id)
+          // Update the connecting lines
+          signals
+            .find((s) => s.id === id)
+            ?.nodeIds.forEach((nodeId) => {
+              updateLine(nodeId, id)
+            })
         }
       }
 
@@ -80,7 +80,7 @@ export function useDragOperations(
       document.addEventListener("mousemove", handleMouseMove)
       document.addEventListener("mouseup", handleMouseUp)
     },
-    [isLiveMode, nodes, updateNodePosition, updateSignalPosition, updateNodePos, updateSignalPos, updateLine],
+    [isLiveMode, nodes, signals, updateNodePosition, updateSignalPosition, updateNodePos, updateSignalPos, updateLine],
   )
 
   return { handleDragStart }
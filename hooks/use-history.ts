@@ -0,0 +1,85 @@
+"use client"
+
+import { useState, useRef, useCallback, type Dispatch, type SetStateAction } from "react"
+import type { HistoryCommand } from "@/lib/types/history-types"
+
+interface HistoryStacks<T> {
+  past: HistoryCommand<T>[]
+  future: HistoryCommand<T>[]
+}
+
+// Command-based undo/redo on top of an existing piece of React state
+export function useHistory<T>(setState: Dispatch<SetStateAction<T>>, limit = 100) {
+  const [stacks, setStacks] = useState<HistoryStacks<T>>({ past: [], future: [] })
+  const stacksRef = useRef(stacks)
+
+  const updateStacks = useCallback((next: HistoryStacks<T>) => {
+    stacksRef.current = next
+    setStacks(next)
+  }, [])
+
+  // Add a command whose effect has already been applied (e.g. a finished drag gesture)
+  const record = useCallback(
+    (command: HistoryCommand<T>) => {
+      const { past } = stacksRef.current
+      const last = past[past.length - 1]
+
+      if (command.mergeKey !== undefined && last?.mergeKey === command.mergeKey) {
+        const merged: HistoryCommand<T> = {
+          label: command.label,
+          mergeKey: command.mergeKey,
+          apply: (state) => command.apply(last.apply(state)),
+          revert: (state) => last.revert(command.revert(state)),
+        }
+        updateStacks({ past: [...past.slice(0, -1), merged], future: [] })
+        return
+      }
+
+      updateStacks({ past: [...past, command].slice(-limit), future: [] })
+    },
+    [limit, updateStacks],
+  )
+
+  // Apply a command and add it to the history
+  const execute = useCallback(
+    (command: HistoryCommand<T>) => {
+      setState((prev) => command.apply(prev))
+      record(command)
+    },
+    [setState, record],
+  )
+
+  const undo = useCallback(() => {
+    const { past, future } = stacksRef.current
+    const command = past[past.length - 1]
+    if (!command) return
+
+    setState((prev) => command.revert(prev))
+    updateStacks({ past: past.slice(0, -1), future: [command, ...future] })
+  }, [setState, updateStacks])
+
+  const redo = useCallback(() => {
+    const { past, future } = stacksRef.current
+    const command = future[0]
+    if (!command) return
+
+    setState((prev) => command.apply(prev))
+    updateStacks({ past: [...past, command], future: future.slice(1) })
+  }, [setState, updateStacks])
+
+  const clear = useCallback(() => {
+    updateStacks({ past: [], future: [] })
+  }, [updateStacks])
+
+  return {
+    execute,
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    undoLabel: stacks.past[stacks.past.length - 1]?.label,
+    redoLabel: stacks.future[0]?.label,
+  }
+}
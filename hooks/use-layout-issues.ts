@@ -0,0 +1,25 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { findLayoutIssues, type LayoutIssue } from "@/lib/utils/layout-issues"
+import type { NodeMapGraph } from "@/lib/types/node-types"
+
+// Quiet period before re-checking; drags change the map on every mouse move
+const CHECK_DELAY = 300
+
+// Layout issues of the map, re-checked in the background once edits settle
+export function useLayoutIssues(graph: NodeMapGraph) {
+  const [issues, setIssues] = useState<LayoutIssue[]>([])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setIssues(findLayoutIssues(graph))
+    }, CHECK_DELAY)
+
+    return () => {
+      clearTimeout(timeoutId)
+    }
+  }, [graph])
+
+  return issues
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { parseNodeMapDocument } from "@/lib/schema/node-map"
+import type { NodeMapDocument } from "@/lib/types/node-types"
+
+export type MapDocumentState =
+  | { status: "loading" }
+  | { status: "ready"; document: NodeMapDocument; revision: string | null }
+  | { status: "error"; message: string; notFound: boolean }
+
+// Fetch a map from the API at runtime so saved edits show up without a rebuild
+export function useMapDocument(slug: string) {
+  const [state, setState] = useState<MapDocumentState>({ status: "loading" })
+
+  const load = useCallback(
+    async (signal?: AbortSignal) => {
+      setState({ status: "loading" })
+
+      try {
+        // "no-cache" makes the browser revalidate with If-None-Match, so unchanged maps come back as 304s
+        const response = await fetch(`/api/maps/${slug}`, { cache: "no-cache", signal })
+        if (!response.ok) {
+          setState({
+            status: "error",
+            message: response.status === 404 ? `Map "${slug}" does not exist` : "Failed to load the map",
+            notFound: response.status === 404,
+          })
+          return
+        }
+
+        const result = parseNodeMapDocument(await response.json())
+        if (!result.success) {
+          console.error("Invalid node map data:", result.issues)
+          setState({ status: "error", message: "The map data is invalid", notFound: false })
+          return
+        }
+        // The ETag is the revision the editor sends back when saving
+        const etag = response.headers.get("ETag")
+        setState({ status: "ready", document: result.document, revision: etag && etag.replace(/^"|"$/g, "") })
+      } catch (error) {
+        if (signal?.aborted) return
+        console.error("Failed to load node map:", error)
+        setState({ status: "error", message: "Failed to load the map", notFound: false })
+      }
+    },
+    [slug],
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    load(controller.signal)
+    return () => {
+      controller.abort()
+    }
+  }, [load])
+
+  return { state, reload: useCallback(() => load(), [load]) }
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { getMapTags, isSearchActive, searchMap, type SearchMatch } from "@/lib/utils/search"
+import type { NodeMapGraph } from "@/lib/types/node-types"
+
+// Search state shared by the editor and the viewer. Cycling through matches hands each one to `onFocus`,
+// which pans the view to it.
+export function useMapSearch(graph: NodeMapGraph, onFocus: (match: SearchMatch) => void) {
+  const [query, setQuery] = useState("")
+  const [tags, setTags] = useState<string[]>([])
+  const [categoryIds, setCategoryIds] = useState<string[]>([])
+  // Match last cycled to; -1 until the first step after the search changes
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  // A category removed from the palette drops out of the filter
+  const activeCategoryIds = useMemo(
+    () => categoryIds.filter((id) => graph.categories.some((category) => category.id === id)),
+    [graph, categoryIds],
+  )
+
+  const matches = useMemo(
+    () => searchMap(graph, { query, tags, categoryIds: activeCategoryIds }),
+    [graph, query, tags, activeCategoryIds],
+  )
+  const availableTags = useMemo(() => getMapTags(graph), [graph])
+  // Ids of matching elements, or null while nothing is searched (so nothing is dimmed)
+  const matchIds = useMemo(() => {
+    if (!isSearchActive({ query, tags, categoryIds: activeCategoryIds })) return null
+    return new Set(matches.map((match) => match.id))
+  }, [matches, query, tags, activeCategoryIds])
+
+  const changeQuery = (value: string) => {
+    setQuery(value)
+    setActiveIndex(-1)
+  }
+
+  const toggleTag = (tag: string) => {
+    setTags((prev) => (prev.includes(tag) ? prev.filter((other) => other !== tag) : [...prev, tag]))
+    setActiveIndex(-1)
+  }
+
+  const toggleCategory = (id: string) => {
+    setCategoryIds((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]))
+    setActiveIndex(-1)
+  }
+
+  const clear = () => {
+    setQuery("")
+    setTags([])
+    setCategoryIds([])
+    setActiveIndex(-1)
+  }
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return
+
+    // Edits can shrink the list under the cursor, so wrap from wherever it points now
+    const next =
+      activeIndex === -1 && direction === -1
+        ? matches.length - 1
+        : (((activeIndex + direction) % matches.length) + matches.length) % matches.length
+    setActiveIndex(next)
+    onFocus(matches[next])
+  }
+
+  return {
+    query,
+    setQuery: changeQuery,
+    tags,
+    toggleTag,
+    availableTags,
+    categoryIds: activeCategoryIds,
+    toggleCategory,
+    clear,
+    matches,
+    matchIds,
+    activeIndex: activeIndex < matches.length ? activeIndex : -1,
+    next: () => step(1),
+    previous: () => step(-1),
+  }
+}
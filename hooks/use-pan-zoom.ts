@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback, type RefObject } from "react"
+import type { BoundingBox, Position, Viewport } from "@/lib/types/node-types"
+import { centerBounds, fitBounds, screenToContent, zoomAroundPoint } from "@/lib/utils/geometry"
+
+const ZOOM_STEP = 1.2
+// Zoom speed of ctrl+wheel, and the largest delta one wheel event counts for, so a mouse wheel notch zooms
+// about one step while trackpad pinches (many small deltas) stay smooth
+const WHEEL_ZOOM_SENSITIVITY = 0.01
+const MAX_WHEEL_ZOOM_DELTA = 20
+
+interface PinchState {
+  distance: number
+  midpoint: Position
+  viewport: Viewport
+}
+
+function touchDistance(a: Touch, b: Touch) {
+  return Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+}
+
+// Shared pan/zoom state for the map canvases. Ctrl+wheel and pinch gestures zoom around the pointer; plain wheel
+// and two-finger trackpad scrolls pan.
+export function usePanZoom(svgRef: RefObject<SVGSVGElement | null>) {
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 })
+  const viewportRef = useRef(viewport)
+  const pinchRef = useRef<PinchState | null>(null)
+
+  // Keep the latest viewport available to the native gesture listeners
+  useEffect(() => {
+    viewportRef.current = viewport
+  }, [viewport])
+
+  const getSvgRect = useCallback(() => svgRef.current?.getBoundingClientRect(), [svgRef])
+
+  // Convert client (window) coordinates to SVG-local pixels
+  const toLocal = useCallback(
+    (clientX: number, clientY: number): Position => {
+      const rect = getSvgRect()
+      return { x: clientX - (rect?.left || 0), y: clientY - (rect?.top || 0) }
+    },
+    [getSvgRect],
+  )
+
+  // Attach native listeners so wheel and touch gestures can be prevented from scrolling the page
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const lineHeight = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1
+
+      // Trackpad pinches arrive as ctrl+wheel too
+      if (e.ctrlKey || e.metaKey) {
+        const delta = Math.max(-MAX_WHEEL_ZOOM_DELTA, Math.min(MAX_WHEEL_ZOOM_DELTA, e.deltaY * lineHeight))
+        const factor = Math.exp(-delta * WHEEL_ZOOM_SENSITIVITY)
+        const anchor = toLocal(e.clientX, e.clientY)
+        setViewport((prev) => zoomAroundPoint(prev, factor, anchor))
+        return
+      }
+
+      // Shift turns a mouse wheel sideways where the browser doesn't already
+      const [dx, dy] = e.shiftKey && e.deltaX === 0 ? [e.deltaY, 0] : [e.deltaX, e.deltaY]
+      setViewport((prev) => ({ ...prev, x: prev.x - dx * lineHeight, y: prev.y - dy * lineHeight }))
+    }
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return
+      const [a, b] = [e.touches[0], e.touches[1]]
+
+      pinchRef.current = {
+        distance: touchDistance(a, b),
+        midpoint: toLocal((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2),
+        viewport: viewportRef.current,
+      }
+    }
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const pinch = pinchRef.current
+      if (!pinch || e.touches.length !== 2) return
+      e.preventDefault()
+
+      const [a, b] = [e.touches[0], e.touches[1]]
+      const midpoint = toLocal((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2)
+      const factor = touchDistance(a, b) / (pinch.distance || 1)
+
+      // Zoom around the starting midpoint, then follow the fingers for two-finger panning
+      const zoomed = zoomAroundPoint(pinch.viewport, factor, pinch.midpoint)
+      setViewport({
+        x: zoomed.x + midpoint.x - pinch.midpoint.x,
+        y: zoomed.y + midpoint.y - pinch.midpoint.y,
+        scale: zoomed.scale,
+      })
+    }
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) {
+        pinchRef.current = null
+      }
+    }
+
+    svg.addEventListener("wheel", handleWheel, { passive: false })
+    svg.addEventListener("touchstart", handleTouchStart, { passive: true })
+    svg.addEventListener("touchmove", handleTouchMove, { passive: false })
+    svg.addEventListener("touchend", handleTouchEnd)
+    svg.addEventListener("touchcancel", handleTouchEnd)
+
+    return () => {
+      svg.removeEventListener("wheel", handleWheel)
+      svg.removeEventListener("touchstart", handleTouchStart)
+      svg.removeEventListener("touchmove", handleTouchMove)
+      svg.removeEventListener("touchend", handleTouchEnd)
+      svg.removeEventListener("touchcancel", handleTouchEnd)
+    }
+  }, [svgRef, toLocal])
+
+  // Pan by a delta in screen pixels
+  const panBy = useCallback((dx: number, dy: number) => {
+    setViewport((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }))
+  }, [])
+
+  // Zoom around the center of the canvas
+  const zoomBy = useCallback(
+    (factor: number) => {
+      const rect = getSvgRect()
+      const anchor = { x: (rect?.width || 0) / 2, y: (rect?.height || 0) / 2 }
+      setViewport((prev) => zoomAroundPoint(prev, factor, anchor))
+    },
+    [getSvgRect],
+  )
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy])
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy])
+
+  // Scale and center the given content bounds to fill the canvas. Returns the new viewport, if there is a canvas.
+  const fitToBounds = useCallback(
+    (bounds: BoundingBox) => {
+      const rect = getSvgRect()
+      if (!rect) return
+      const next = fitBounds(bounds, rect.width, rect.height)
+      setViewport(next)
+      return next
+    },
+    [getSvgRect],
+  )
+
+  // Center the given content bounds at 100% zoom
+  const centerOnBounds = useCallback(
+    (bounds: BoundingBox) => {
+      const rect = getSvgRect()
+      if (!rect) return
+      setViewport(centerBounds(bounds, rect.width, rect.height, 1))
+    },
+    [getSvgRect],
+  )
+
+  // Pan so the given content point sits in the middle of the canvas, keeping the zoom level
+  const centerOnPoint = useCallback(
+    (point: Position) => {
+      const rect = getSvgRect()
+      if (!rect) return
+      setViewport((prev) => ({
+        ...prev,
+        x: rect.width / 2 - point.x * prev.scale,
+        y: rect.height / 2 - point.y * prev.scale,
+      }))
+    },
+    [getSvgRect],
+  )
+
+  const resetViewport = useCallback(() => {
+    setViewport({ x: 0, y: 0, scale: 1 })
+  }, [])
+
+  // Convert client (window) coordinates to content coordinates under the current transform
+  const clientToContent = useCallback(
+    (clientX: number, clientY: number) => screenToContent(viewport, toLocal(clientX, clientY)),
+    [viewport, toLocal],
+  )
+
+  return {
+    viewport,
+    setViewport,
+    transform: `translate(${viewport.x}, ${viewport.y}) scale(${viewport.scale})`,
+    panBy,
+    zoomIn,
+    zoomOut,
+    fitToBounds,
+    centerOnBounds,
+    centerOnPoint,
+    resetViewport,
+    clientToContent,
+  }
+}
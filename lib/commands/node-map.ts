@@ -0,0 +1,327 @@
+import type { HistoryCommand } from "@/lib/types/history-types"
+import type {
+  CategoryData,
+  NodeData,
+  NodeMapGraph,
+  Position,
+  RelationshipData,
+  SignalData,
+  SignalMetadata,
+} from "@/lib/types/node-types"
+
+export type NodeMapCommand = HistoryCommand<NodeMapGraph>
+
+function updateNode(graph: NodeMapGraph, id: string, update: (node: NodeData) => NodeData): NodeMapGraph {
+  return { ...graph, nodes: graph.nodes.map((node) => (node.id === id ? update(node) : node)) }
+}
+
+function updateSignal(graph: NodeMapGraph, id: string, update: (signal: SignalData) => SignalData): NodeMapGraph {
+  return { ...graph, signals: graph.signals.map((signal) => (signal.id === id ? update(signal) : signal)) }
+}
+
+function updateRelationship(
+  graph: NodeMapGraph,
+  id: string,
+  update: (relationship: RelationshipData) => RelationshipData,
+): NodeMapGraph {
+  return {
+    ...graph,
+    relationships: graph.relationships.map((relationship) =>
+      relationship.id === id ? update(relationship) : relationship,
+    ),
+  }
+}
+
+const signalMetadataKeys = ["description", "sources", "observedAt", "confidence", "tags"] as const
+
+// Copy only the metadata fields that are set, so unset ones don't linger in the JSON as `undefined`
+export function pickSignalMetadata(source: SignalMetadata): SignalMetadata {
+  const metadata: SignalMetadata = {}
+  signalMetadataKeys.forEach((key) => {
+    if (source[key] !== undefined) {
+      Object.assign(metadata, { [key]: source[key] })
+    }
+  })
+  return metadata
+}
+
+function withMetadata(signal: SignalData, metadata: SignalMetadata): SignalData {
+  const next: SignalData = { ...signal }
+  signalMetadataKeys.forEach((key) => {
+    delete next[key]
+  })
+  return { ...next, ...pickSignalMetadata(metadata) }
+}
+
+function insertAt<T>(items: T[], index: number, item: T): T[] {
+  const next = [...items]
+  next.splice(Math.min(index, next.length), 0, item)
+  return next
+}
+
+export function addNodeCommand(node: NodeData): NodeMapCommand {
+  return {
+    label: "Add Node",
+    apply: (graph) => ({ ...graph, nodes: [...graph.nodes, node] }),
+    revert: (graph) => ({ ...graph, nodes: graph.nodes.filter((n) => n.id !== node.id) }),
+  }
+}
+
+export function addSignalCommand(signal: SignalData): NodeMapCommand {
+  return {
+    label: "Add Signal",
+    apply: (graph) => ({ ...graph, signals: [...graph.signals, signal] }),
+    revert: (graph) => ({ ...graph, signals: graph.signals.filter((s) => s.id !== signal.id) }),
+  }
+}
+
+export function addRelationshipCommand(relationship: RelationshipData): NodeMapCommand {
+  return {
+    label: "Add Relationship",
+    apply: (graph) => ({ ...graph, relationships: [...graph.relationships, relationship] }),
+    revert: (graph) => ({ ...graph, relationships: graph.relationships.filter((r) => r.id !== relationship.id) }),
+  }
+}
+
+interface SignalChange {
+  signal: SignalData
+  index: number
+  nodeIds: string[] | null
+}
+
+// Delete nodes, signals and relationships by id. Links to deleted nodes are dropped, and signals left
+// without any node go with them, as do relationships to a deleted node. Undo puts every element back in
+// its original place and restores the dropped links.
+function deleteCommand(label: string, graph: NodeMapGraph, ids: string[]): NodeMapCommand {
+  const selected = new Set(ids)
+
+  const removedNodes = graph.nodes.flatMap((node, index) => (selected.has(node.id) ? [{ node, index }] : []))
+  // `nodeIds` is what remains of a signal that survives with fewer links, null for one that is removed
+  const changedSignals = graph.signals.flatMap((signal, index): SignalChange[] => {
+    const nodeIds = signal.nodeIds.filter((id) => !selected.has(id))
+    if (selected.has(signal.id) || nodeIds.length === 0) return [{ signal, index, nodeIds: null }]
+    return nodeIds.length < signal.nodeIds.length ? [{ signal, index, nodeIds }] : []
+  })
+  const changes = new Map(changedSignals.map((change) => [change.signal.id, change]))
+  const removedRelationships = graph.relationships.flatMap((relationship, index) =>
+    selected.has(relationship.id) || selected.has(relationship.sourceId) || selected.has(relationship.targetId)
+      ? [{ relationship, index }]
+      : [],
+  )
+  const removedRelationshipIds = new Set(removedRelationships.map(({ relationship }) => relationship.id))
+
+  return {
+    label,
+    apply: (state) => ({
+      ...state,
+      nodes: state.nodes.filter((node) => !selected.has(node.id)),
+      signals: state.signals.flatMap((signal) => {
+        const change = changes.get(signal.id)
+        if (!change) return [signal]
+        return change.nodeIds ? [{ ...signal, nodeIds: change.nodeIds }] : []
+      }),
+      relationships: state.relationships.filter((relationship) => !removedRelationshipIds.has(relationship.id)),
+    }),
+    revert: (state) => ({
+      ...state,
+      nodes: removedNodes.reduce((nodes, { node, index }) => insertAt(nodes, index, node), state.nodes),
+      signals: changedSignals.reduce(
+        (signals, { signal, index, nodeIds }) =>
+          nodeIds
+            ? signals.map((s) => (s.id === signal.id ? { ...s, nodeIds: signal.nodeIds } : s))
+            : insertAt(signals, index, signal),
+        state.signals,
+      ),
+      relationships: removedRelationships.reduce(
+        (relationships, { relationship, index }) => insertAt(relationships, index, relationship),
+        state.relationships,
+      ),
+    }),
+  }
+}
+
+export function deleteNodeCommand(graph: NodeMapGraph, id: string): NodeMapCommand {
+  return deleteCommand("Delete Node", graph, [id])
+}
+
+export function deleteSignalCommand(graph: NodeMapGraph, id: string): NodeMapCommand {
+  return deleteCommand("Delete Signal", graph, [id])
+}
+
+export function deleteRelationshipCommand(graph: NodeMapGraph, id: string): NodeMapCommand {
+  return deleteCommand("Delete Relationship", graph, [id])
+}
+
+export function deleteElementsCommand(graph: NodeMapGraph, ids: string[]): NodeMapCommand {
+  return deleteCommand("Delete Selection", graph, ids)
+}
+
+export function setNodeTextCommand(id: string, from: string, to: string): NodeMapCommand {
+  return {
+    label: "Rename Node",
+    apply: (graph) => updateNode(graph, id, (node) => ({ ...node, text: to })),
+    revert: (graph) => updateNode(graph, id, (node) => ({ ...node, text: from })),
+  }
+}
+
+export function setSignalTextCommand(id: string, from: string, to: string): NodeMapCommand {
+  return {
+    label: "Rename Signal",
+    apply: (graph) => updateSignal(graph, id, (signal) => ({ ...signal, text: to })),
+    revert: (graph) => updateSignal(graph, id, (signal) => ({ ...signal, text: from })),
+  }
+}
+
+export function setSignalMetadataCommand(id: string, from: SignalMetadata, to: SignalMetadata): NodeMapCommand {
+  return {
+    label: "Edit Signal Details",
+    apply: (graph) => updateSignal(graph, id, (signal) => withMetadata(signal, to)),
+    revert: (graph) => updateSignal(graph, id, (signal) => withMetadata(signal, from)),
+  }
+}
+
+export function moveNodeCommand(id: string, from: Position, to: Position): NodeMapCommand {
+  return {
+    label: "Move Node",
+    apply: (graph) => updateNode(graph, id, (node) => ({ ...node, ...to })),
+    revert: (graph) => updateNode(graph, id, (node) => ({ ...node, ...from })),
+  }
+}
+
+// Pinned nodes keep their position through auto-layout. Unpinning drops the flag rather than storing false.
+export function setNodePinnedCommand(id: string, pinned: boolean): NodeMapCommand {
+  const withPinned = (node: NodeData, value: boolean): NodeData => {
+    const { pinned: _, ...rest } = node
+    return value ? { ...rest, pinned: true } : rest
+  }
+  return {
+    label: pinned ? "Pin Node" : "Unpin Node",
+    apply: (graph) => updateNode(graph, id, (node) => withPinned(node, pinned)),
+    revert: (graph) => updateNode(graph, id, (node) => withPinned(node, !pinned)),
+  }
+}
+
+// Assign a node to a category, or to none. Clearing drops the key rather than storing undefined.
+export function setNodeCategoryCommand(id: string, from: string | undefined, to: string | undefined): NodeMapCommand {
+  const withCategory = (node: NodeData, categoryId: string | undefined): NodeData => {
+    const { categoryId: _, ...rest } = node
+    return categoryId ? { ...rest, categoryId } : rest
+  }
+  return {
+    label: to ? "Set Node Category" : "Clear Node Category",
+    apply: (graph) => updateNode(graph, id, (node) => withCategory(node, to)),
+    revert: (graph) => updateNode(graph, id, (node) => withCategory(node, from)),
+  }
+}
+
+// Replace the category palette. Nodes in a category that no longer exists lose it; undo gives it back.
+export function setCategoriesCommand(graph: NodeMapGraph, categories: CategoryData[]): NodeMapCommand {
+  const before = graph.categories
+  const kept = new Set(categories.map((category) => category.id))
+  const cleared = graph.nodes.flatMap((node) =>
+    node.categoryId && !kept.has(node.categoryId) ? [setNodeCategoryCommand(node.id, node.categoryId, undefined)] : [],
+  )
+  const clearCategories = batchCommand("Clear Node Categories", cleared)
+
+  return {
+    label: "Edit Categories",
+    apply: (state) => ({ ...clearCategories.apply(state), categories }),
+    revert: (state) => ({ ...clearCategories.revert(state), categories: before }),
+  }
+}
+
+export function moveSignalCommand(id: string, from: Position, to: Position): NodeMapCommand {
+  return {
+    label: "Move Signal",
+    apply: (graph) => updateSignal(graph, id, (signal) => ({ ...signal, ...to })),
+    revert: (graph) => updateSignal(graph, id, (signal) => ({ ...signal, ...from })),
+  }
+}
+
+// Change a relationship's type, label or direction
+export function setRelationshipCommand(label: string, from: RelationshipData, to: RelationshipData): NodeMapCommand {
+  return {
+    label,
+    apply: (graph) => updateRelationship(graph, from.id, () => to),
+    revert: (graph) => updateRelationship(graph, from.id, () => from),
+  }
+}
+
+// Change the nodes a signal links to, placing it at `position`, e.g. next to a node it was dropped on.
+// Undo restores `signal`'s links and position.
+export function setSignalNodesCommand(
+  label: string,
+  signal: SignalData,
+  nodeIds: string[],
+  position: Position = signal,
+): NodeMapCommand {
+  return {
+    label,
+    apply: (graph) => updateSignal(graph, signal.id, (s) => ({ ...s, x: position.x, y: position.y, nodeIds })),
+    revert: (graph) =>
+      updateSignal(graph, signal.id, (s) => ({ ...s, x: signal.x, y: signal.y, nodeIds: signal.nodeIds })),
+  }
+}
+
+// Swap the whole map, e.g. when importing a file
+export function replaceGraphCommand(label: string, before: NodeMapGraph, after: NodeMapGraph): NodeMapCommand {
+  return {
+    label,
+    apply: () => after,
+    revert: () => before,
+  }
+}
+
+// Group several commands into a single history entry
+export function batchCommand(label: string, commands: NodeMapCommand[]): NodeMapCommand {
+  return {
+    label,
+    apply: (graph) => commands.reduce((state, command) => command.apply(state), graph),
+    revert: (graph) => commands.reduceRight((state, command) => command.revert(state), graph),
+  }
+}
+
+// Copy the selected nodes and signals, shifted by `offset`. Signals linked to a copied node come along
+// and link to the copy; a selected signal's copy also keeps its links to nodes that were not copied.
+// Relationships are copied when both of their nodes are.
+// Returns the command together with the ids of the copies, e.g. to select them.
+export function duplicateElementsCommand(
+  graph: NodeMapGraph,
+  ids: string[],
+  offset: Position,
+  createId: (prefix: "node" | "signal" | "relationship") => string,
+): { command: NodeMapCommand; copyIds: string[] } {
+  const selected = new Set(ids)
+  const commands: NodeMapCommand[] = []
+  const copyIds: string[] = []
+
+  const nodeCopies = new Map<string, string>()
+  graph.nodes.forEach((node) => {
+    if (!selected.has(node.id)) return
+    const id = createId("node")
+    nodeCopies.set(node.id, id)
+    commands.push(addNodeCommand({ ...node, id, x: node.x + offset.x, y: node.y + offset.y }))
+    copyIds.push(id)
+  })
+
+  graph.signals.forEach((signal) => {
+    const nodeIds = selected.has(signal.id)
+      ? signal.nodeIds.map((id) => nodeCopies.get(id) ?? id)
+      : signal.nodeIds.flatMap((id) => nodeCopies.get(id) ?? [])
+    if (nodeIds.length === 0) return
+
+    const copy = { ...signal, id: createId("signal"), x: signal.x + offset.x, y: signal.y + offset.y, nodeIds }
+    commands.push(addSignalCommand(copy))
+    if (selected.has(signal.id)) copyIds.push(copy.id)
+  })
+
+  graph.relationships.forEach((relationship) => {
+    const sourceId = nodeCopies.get(relationship.sourceId)
+    const targetId = nodeCopies.get(relationship.targetId)
+    if (!sourceId || !targetId) return
+
+    commands.push(addRelationshipCommand({ ...relationship, id: createId("relationship"), sourceId, targetId }))
+  })
+
+  return { command: batchCommand("Duplicate Selection", commands), copyIds }
+}
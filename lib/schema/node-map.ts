@@ -0,0 +1,400 @@
+import { z } from "zod"
+import type { NodeMapDocument, NodeMapGraph, RelationshipType } from "@/lib/types/node-types"
+
+// Bump together with a new entry in `migrations` whenever the persisted shape changes
+export const CURRENT_SCHEMA_VERSION = 4
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+export type NodeMapParseResult =
+  | { success: true; document: NodeMapDocument }
+  | { success: false; issues: SchemaIssue[] }
+
+// Element ids double as DOM ids and GSAP selectors (`#${id}`), so they must be selector-safe
+const elementIdSchema = z
+  .string()
+  .regex(/^[A-Za-z][\w-]*$/, "Must start with a letter and contain only letters, digits, '-' or '_'")
+
+const elementTextSchema = z.string().refine((text) => text.trim().length > 0, "Text must not be empty")
+
+const coordinateSchema = z.number().finite()
+
+export const MIN_CONFIDENCE = 1
+export const MAX_CONFIDENCE = 5
+
+export const CONFIDENCE_LABELS: Record<number, string> = {
+  1: "Weak",
+  2: "Emerging",
+  3: "Moderate",
+  4: "Strong",
+  5: "Very strong",
+}
+
+// Metadata fields are optional, so adding them did not need a schema version bump
+export const signalMetadataSchema = z.object({
+  description: z.string().max(2000, "Must be at most 2000 characters").optional(),
+  // Sources are rendered as links, so other schemes (javascript:, data:) would be a script injection
+  sources: z
+    .array(
+      z
+        .string()
+        .url("Must be a valid URL")
+        .refine((url) => /^https?:\/\//i.test(url), "Only http(s) links are allowed"),
+    )
+    .optional(),
+  observedAt: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date in YYYY-MM-DD format")
+    .refine((date) => !Number.isNaN(Date.parse(date)), "Must be a valid date")
+    .optional(),
+  confidence: z
+    .number()
+    .int("Must be a whole number")
+    .min(MIN_CONFIDENCE, `Must be between ${MIN_CONFIDENCE} and ${MAX_CONFIDENCE}`)
+    .max(MAX_CONFIDENCE, `Must be between ${MIN_CONFIDENCE} and ${MAX_CONFIDENCE}`)
+    .optional(),
+  tags: z.array(z.string().refine((tag) => tag.trim().length > 0, "Tags must not be empty")).optional(),
+})
+
+export const signalSchema = signalMetadataSchema.extend({
+  id: elementIdSchema,
+  text: elementTextSchema,
+  x: coordinateSchema,
+  y: coordinateSchema,
+  nodeIds: z.array(elementIdSchema).min(1, "Must link to at least one node"),
+})
+
+export const RELATIONSHIP_TYPES = ["enables", "converges", "competes"] as const
+
+// Reads as "<source> <label> <target>"
+export const RELATIONSHIP_LABELS: Record<RelationshipType, string> = {
+  enables: "Enables",
+  converges: "Converges with",
+  competes: "Competes with",
+}
+
+export const relationshipSchema = z.object({
+  id: elementIdSchema,
+  type: z.enum(RELATIONSHIP_TYPES),
+  sourceId: elementIdSchema,
+  targetId: elementIdSchema,
+  label: z.string().trim().min(1, "Label must not be empty").max(100, "Must be at most 100 characters").optional(),
+})
+
+// Map published at `/` and edited at `/edit`
+export const DEFAULT_MAP_SLUG = "default"
+
+// Map slugs name the file on disk and appear in URLs
+export const mapSlugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Must be lowercase letters, digits and single hyphens")
+  .max(64, "Must be at most 64 characters")
+
+export const mapNameSchema = z.string().trim().min(1, "Name is required").max(100, "Must be at most 100 characters")
+
+export const nodeSchema = z.object({
+  id: elementIdSchema,
+  text: elementTextSchema,
+  x: coordinateSchema,
+  y: coordinateSchema,
+  // Optional, so adding it did not need a schema version bump
+  pinned: z.boolean().optional(),
+  categoryId: elementIdSchema.optional(),
+})
+
+export const categorySchema = z.object({
+  id: elementIdSchema,
+  name: z.string().trim().min(1, "Name is required").max(50, "Must be at most 50 characters"),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Must be a hex color like #34D399"),
+})
+
+export const nodeMapDocumentSchema = z
+  .object({
+    schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+    name: mapNameSchema.optional(),
+    nodes: z.array(nodeSchema),
+    signals: z.array(signalSchema),
+    relationships: z.array(relationshipSchema),
+    categories: z.array(categorySchema),
+  })
+  .superRefine((document, ctx) => {
+    // Ids share one DOM namespace, so nodes, signals and relationships may not collide either
+    const seen = new Set<string>()
+    const checkId = (id: string, path: (string | number)[]) => {
+      if (seen.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Duplicate id "${id}"` })
+      }
+      seen.add(id)
+    }
+
+    document.nodes.forEach((node, index) => {
+      checkId(node.id, ["nodes", index, "id"])
+    })
+
+    const nodeIds = new Set(document.nodes.map((node) => node.id))
+    document.signals.forEach((signal, index) => {
+      checkId(signal.id, ["signals", index, "id"])
+      signal.nodeIds.forEach((nodeId, linkIndex) => {
+        const path = ["signals", index, "nodeIds", linkIndex]
+        if (!nodeIds.has(nodeId)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown node "${nodeId}"` })
+        } else if (signal.nodeIds.indexOf(nodeId) !== linkIndex) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Duplicate link to "${nodeId}"` })
+        }
+      })
+    })
+
+    const relationshipKeys = new Set<string>()
+    document.relationships.forEach((relationship, index) => {
+      checkId(relationship.id, ["relationships", index, "id"])
+      for (const end of ["sourceId", "targetId"] as const) {
+        if (!nodeIds.has(relationship[end])) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["relationships", index, end],
+            message: `Unknown node "${relationship[end]}"`,
+          })
+        }
+      }
+      if (relationship.sourceId === relationship.targetId) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["relationships", index, "targetId"],
+          message: "Must connect two different nodes",
+        })
+      }
+
+      const key = relationshipKey(relationship)
+      if (relationshipKeys.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["relationships", index],
+          message: "Duplicate relationship between the same nodes",
+        })
+      }
+      relationshipKeys.add(key)
+    })
+
+    // Categories aren't drawn as elements, so their ids only need to be unique among themselves
+    const categoryIds = new Set<string>()
+    const categoryNames = new Set<string>()
+    document.categories.forEach((category, index) => {
+      if (categoryIds.has(category.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["categories", index, "id"],
+          message: `Duplicate id "${category.id}"`,
+        })
+      }
+      categoryIds.add(category.id)
+
+      const name = category.name.toLowerCase()
+      if (categoryNames.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["categories", index, "name"],
+          message: `Duplicate category "${category.name}"`,
+        })
+      }
+      categoryNames.add(name)
+    })
+    document.nodes.forEach((node, index) => {
+      if (node.categoryId !== undefined && !categoryIds.has(node.categoryId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["nodes", index, "categoryId"],
+          message: `Unknown category "${node.categoryId}"`,
+        })
+      }
+    })
+  })
+
+// Identifies a relationship by what it says: only "enables" has a direction, so the others match either way round
+export function relationshipKey({
+  type,
+  sourceId,
+  targetId,
+}: {
+  type: RelationshipType
+  sourceId: string
+  targetId: string
+}): string {
+  const ends = type === "enables" ? [sourceId, targetId] : [sourceId, targetId].sort()
+  return [type, ...ends].join(":")
+}
+
+// Request bodies for the map management API
+export const createMapRequestSchema = z.object({
+  name: mapNameSchema,
+  slug: mapSlugSchema.optional(),
+})
+
+export const updateMapRequestSchema = z
+  .object({
+    name: mapNameSchema.optional(),
+    slug: mapSlugSchema.optional(),
+  })
+  .refine((body) => body.name !== undefined || body.slug !== undefined, "Provide a new name or slug")
+
+// Snapshot ids in the revision history: zero-padded timestamp plus the start of the revision hash
+export const mapRevisionIdSchema = z.string().regex(/^\d{15}-[\w-]{1,8}$/, "Invalid revision id")
+
+// Optional note describing a save, shown in the revision history
+export const commitMessageSchema = z.string().trim().max(200, "Must be at most 200 characters")
+
+type RawRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Fold a signal typed again under another node into the first copy: link the node, union tags and
+// sources, and fill in metadata the first copy lacks
+function mergeDuplicateSignal(signal: RawRecord, duplicate: RawRecord, nodeId: unknown) {
+  const nodeIds = signal.nodeIds as unknown[]
+  if (!nodeIds.includes(nodeId)) nodeIds.push(nodeId)
+
+  for (const key of ["sources", "tags"]) {
+    if (Array.isArray(duplicate[key])) {
+      signal[key] = Array.from(new Set([...(Array.isArray(signal[key]) ? signal[key] : []), ...duplicate[key]]))
+    }
+  }
+  for (const key of ["description", "observedAt", "confidence"]) {
+    if (signal[key] === undefined && duplicate[key] !== undefined) signal[key] = duplicate[key]
+  }
+}
+
+// v1 nested every signal under exactly one node. v2 lists signals next to the nodes, each linking to
+// any number of them; signals with identical text under different nodes become one shared signal.
+function separateSignals(document: unknown): unknown {
+  if (!isRecord(document) || !Array.isArray(document.nodes)) return document
+
+  const signals: unknown[] = []
+  const signalsByText = new Map<string, RawRecord>()
+
+  const nodes = document.nodes.map((node) => {
+    if (!isRecord(node)) return node
+    const { signals: nested, ...rest } = node
+
+    if (Array.isArray(nested)) {
+      nested.forEach((entry) => {
+        if (!isRecord(entry)) {
+          // Left for validation to report
+          signals.push(entry)
+          return
+        }
+
+        const { parentId, ...signal } = entry
+        const text = typeof signal.text === "string" ? signal.text.trim() : undefined
+        const existing = text !== undefined ? signalsByText.get(text) : undefined
+        if (existing) {
+          mergeDuplicateSignal(existing, signal, node.id)
+          return
+        }
+
+        const separated = { ...signal, nodeIds: [node.id] }
+        signals.push(separated)
+        if (text !== undefined) signalsByText.set(text, separated)
+      })
+    }
+    return rest
+  })
+
+  return { ...document, schemaVersion: 2, nodes, signals }
+}
+
+// v3 added typed relationships between nodes; older maps have none
+function addRelationships(document: unknown): unknown {
+  if (!isRecord(document)) return document
+  return { ...document, schemaVersion: 3, relationships: [] }
+}
+
+// v4 added a palette of node categories; older maps start with an empty one
+function addCategories(document: unknown): unknown {
+  if (!isRecord(document)) return document
+  return { ...document, schemaVersion: 4, categories: [] }
+}
+
+// Each entry upgrades a document from version `n` to version `n + 1`
+const migrations: Record<number, (document: unknown) => unknown> = {
+  // v0 files are the bare node array written before the versioned envelope existed
+  0: (nodes) => ({ schemaVersion: 1, nodes }),
+  1: separateSignals,
+  2: addRelationships,
+  3: addCategories,
+}
+
+function detectSchemaVersion(raw: unknown): number | undefined {
+  if (Array.isArray(raw)) return 0
+  if (raw && typeof raw === "object" && "schemaVersion" in raw && typeof raw.schemaVersion === "number") {
+    return raw.schemaVersion
+  }
+  return undefined
+}
+
+// Upgrade a raw document to the current schema version. Unknown shapes are returned untouched
+// so validation can report what is wrong with them.
+export function migrateNodeMapDocument(raw: unknown): unknown {
+  let version = detectSchemaVersion(raw)
+  if (version === undefined) return raw
+
+  let document = raw
+  while (version < CURRENT_SCHEMA_VERSION && migrations[version]) {
+    document = migrations[version](document)
+    version += 1
+  }
+  return document
+}
+
+export function formatSchemaIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }))
+}
+
+// Migrate and validate anything that claims to be a node map (file contents, request bodies, imports)
+export function parseNodeMapDocument(raw: unknown): NodeMapParseResult {
+  const result = nodeMapDocumentSchema.safeParse(migrateNodeMapDocument(raw))
+  if (!result.success) {
+    return { success: false, issues: formatSchemaIssues(result.error) }
+  }
+  return { success: true, document: result.data }
+}
+
+export function createNodeMapDocument(
+  { nodes, signals, relationships, categories }: NodeMapGraph,
+  name?: string,
+): NodeMapDocument {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    ...(name !== undefined && { name }),
+    nodes,
+    signals,
+    relationships,
+    categories,
+  }
+}
+
+// Derive a URL-safe slug from a map name, e.g. "Client X 2025" -> "client-x-2025"
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64)
+    .replace(/-+$/, "")
+}
+
+export function describeSchemaIssues(issues: SchemaIssue[], limit = 5): string {
+  const lines = issues.slice(0, limit).map((issue) => `${issue.path}: ${issue.message}`)
+  if (issues.length > limit) {
+    lines.push(`…and ${issues.length - limit} more`)
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,164 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises"
+import { join } from "path"
+import { mapRevisionIdSchema, parseNodeMapDocument } from "@/lib/schema/node-map"
+import type { MapRevisionSummary, NodeMapDocument } from "@/lib/types/node-types"
+
+const HISTORY_DIR = join(process.cwd(), "data", "history")
+
+// Oldest snapshots beyond this are pruned on save
+const MAX_SNAPSHOTS = 200
+
+// Summaries of a map's snapshots by id, so listing the history doesn't read every full document. The save time
+// comes from the id itself.
+const INDEX_FILE = "index.json"
+type SnapshotIndex = Record<string, Omit<MapRevisionSummary, "id" | "savedAt">>
+
+export interface MapSnapshot {
+  id: string
+  revision: string
+  savedAt: string
+  message?: string
+  document: NodeMapDocument
+}
+
+// Slugs are validated by the map store before they get here
+function historyDir(slug: string) {
+  return join(HISTORY_DIR, slug)
+}
+
+// Ids sort chronologically: millisecond timestamp, then the start of the revision hash
+function snapshotId(savedAt: Date, revision: string) {
+  return `${savedAt.getTime().toString().padStart(15, "0")}-${revision.slice(0, 8)}`
+}
+
+function snapshotSavedAt(id: string) {
+  return new Date(Number(id.split("-")[0])).toISOString()
+}
+
+function summarizeSnapshot({ revision, message, document }: MapSnapshot): SnapshotIndex[string] {
+  return {
+    revision,
+    ...(message && { message }),
+    nodeCount: document.nodes.length,
+    signalCount: document.signals.length,
+  }
+}
+
+function isMissingFile(error: unknown) {
+  return error instanceof Error && "code" in error && error.code === "ENOENT"
+}
+
+async function listSnapshotIds(slug: string): Promise<string[]> {
+  let files: string[]
+  try {
+    files = await readdir(historyDir(slug))
+  } catch (error) {
+    if (isMissingFile(error)) return []
+    throw error
+  }
+  return files
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.slice(0, -".json".length))
+    .filter((id) => mapRevisionIdSchema.safeParse(id).success)
+    .sort()
+}
+
+async function readIndex(slug: string): Promise<SnapshotIndex> {
+  try {
+    return JSON.parse(await readFile(join(historyDir(slug), INDEX_FILE), "utf8"))
+  } catch (error) {
+    if (isMissingFile(error)) return {}
+    throw error
+  }
+}
+
+// Through a temporary file, like the maps themselves, so a crash never leaves a truncated index
+async function writeIndex(slug: string, index: SnapshotIndex): Promise<void> {
+  const indexPath = join(historyDir(slug), INDEX_FILE)
+  const tempPath = `${indexPath}.${process.pid}.tmp`
+  await writeFile(tempPath, JSON.stringify(index))
+  await rename(tempPath, indexPath)
+}
+
+export async function hasSnapshots(slug: string): Promise<boolean> {
+  return (await listSnapshotIds(slug)).length > 0
+}
+
+export async function recordSnapshot(
+  slug: string,
+  document: NodeMapDocument,
+  revision: string,
+  savedAt: Date,
+  message?: string,
+): Promise<MapSnapshot> {
+  const snapshot: MapSnapshot = {
+    id: snapshotId(savedAt, revision),
+    revision,
+    savedAt: savedAt.toISOString(),
+    ...(message && { message }),
+    document,
+  }
+
+  await mkdir(historyDir(slug), { recursive: true })
+  await writeFile(join(historyDir(slug), `${snapshot.id}.json`), JSON.stringify(snapshot))
+
+  const ids = await listSnapshotIds(slug)
+  const pruned = ids.slice(0, Math.max(0, ids.length - MAX_SNAPSHOTS))
+  await Promise.all(pruned.map((id) => rm(join(historyDir(slug), `${id}.json`))))
+
+  // Callers hold the map's lock, so the index can't change underneath. Snapshots from before the index are
+  // summarized once here.
+  const previous = await readIndex(slug)
+  const index: SnapshotIndex = {}
+  for (const id of ids.slice(pruned.length)) {
+    const known = id === snapshot.id ? summarizeSnapshot(snapshot) : previous[id]
+    const summary = known ?? (await readSnapshot(slug, id).then((legacy) => legacy && summarizeSnapshot(legacy)))
+    if (summary) index[id] = summary
+  }
+  await writeIndex(slug, index)
+  return snapshot
+}
+
+// Returns null for unknown or malformed ids
+export async function readSnapshot(slug: string, id: string): Promise<MapSnapshot | null> {
+  if (!mapRevisionIdSchema.safeParse(id).success) return null
+
+  let contents: string
+  try {
+    contents = await readFile(join(historyDir(slug), `${id}.json`), "utf8")
+  } catch (error) {
+    if (isMissingFile(error)) return null
+    throw error
+  }
+
+  const snapshot: MapSnapshot = JSON.parse(contents)
+  const result = parseNodeMapDocument(snapshot.document)
+  if (!result.success) {
+    throw new Error(`Snapshot ${id} of map "${slug}" is invalid`)
+  }
+  return { ...snapshot, document: result.document }
+}
+
+// Newest first. Only snapshots missing from the index, i.e. written before it existed, are read in full.
+export async function listSnapshots(slug: string): Promise<MapRevisionSummary[]> {
+  const [ids, index] = await Promise.all([listSnapshotIds(slug), readIndex(slug)])
+  const summaries = await Promise.all(
+    ids.reverse().map(async (id): Promise<MapRevisionSummary | null> => {
+      const summary = index[id] ?? (await readSnapshot(slug, id).then((legacy) => legacy && summarizeSnapshot(legacy)))
+      return summary && { id, savedAt: snapshotSavedAt(id), ...summary }
+    }),
+  )
+
+  return summaries.filter((summary): summary is MapRevisionSummary => summary !== null)
+}
+
+export async function moveSnapshots(fromSlug: string, toSlug: string): Promise<void> {
+  if (!(await hasSnapshots(fromSlug))) return
+  await deleteSnapshots(toSlug)
+  await mkdir(HISTORY_DIR, { recursive: true })
+  await rename(historyDir(fromSlug), historyDir(toSlug))
+}
+
+export async function deleteSnapshots(slug: string): Promise<void> {
+  await rm(historyDir(slug), { recursive: true, force: true })
+}
@@ -0,0 +1,329 @@
+import { createHash } from "crypto"
+import type { Stats } from "fs"
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "fs/promises"
+import { join } from "path"
+import {
+  DEFAULT_MAP_SLUG,
+  createNodeMapDocument,
+  mapSlugSchema,
+  parseNodeMapDocument,
+  slugify,
+} from "@/lib/schema/node-map"
+import {
+  deleteSnapshots,
+  hasSnapshots,
+  listSnapshots,
+  moveSnapshots,
+  readSnapshot,
+  recordSnapshot,
+  type MapSnapshot,
+} from "@/lib/server/map-history"
+import type { MapRevisionSummary, MapSummary, NodeMapDocument, NodeMapGraph } from "@/lib/types/node-types"
+
+const MAPS_DIR = join(process.cwd(), "data", "maps")
+
+// Expected failures carry the HTTP status the API should answer with
+export class MapStoreError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 409,
+  ) {
+    super(message)
+    this.name = "MapStoreError"
+  }
+}
+
+// Raised when a save was based on a revision that is no longer the one on disk
+export class MapConflictError extends MapStoreError {
+  constructor(
+    slug: string,
+    readonly current: MapEntry,
+  ) {
+    super(`Map "${slug}" was changed by someone else since it was loaded`, 409)
+    this.name = "MapConflictError"
+  }
+}
+
+export interface MapEntry {
+  document: NodeMapDocument
+  // Content hash; changes whenever the saved contents do
+  revision: string
+  updatedAt: Date
+}
+
+// The display name is left out, so renaming a map doesn't make open editors' next save a conflict
+export function mapRevision(document: NodeMapDocument): string {
+  return createHash("sha1")
+    .update(JSON.stringify({ ...document, name: undefined }))
+    .digest("base64url")
+}
+
+function mapPath(slug: string) {
+  if (!mapSlugSchema.safeParse(slug).success) {
+    throw new MapStoreError(`Invalid map slug "${slug}"`, 400)
+  }
+  return join(MAPS_DIR, `${slug}.json`)
+}
+
+function isMissingFile(error: unknown) {
+  return error instanceof Error && "code" in error && error.code === "ENOENT"
+}
+
+function isExistingFile(error: unknown) {
+  return error instanceof Error && "code" in error && error.code === "EEXIST"
+}
+
+async function mapExists(slug: string) {
+  try {
+    await stat(mapPath(slug))
+    return true
+  } catch (error) {
+    if (isMissingFile(error)) return false
+    throw error
+  }
+}
+
+// Read and validate a map, migrating older document versions on the way
+export async function readMap(slug: string): Promise<NodeMapDocument> {
+  return (await readMapEntry(slug)).document
+}
+
+// Like `readMap`, but also reports the revision and when the file was last written
+export async function readMapEntry(slug: string): Promise<MapEntry> {
+  const filePath = mapPath(slug)
+  let file: [string, Stats]
+  try {
+    file = await Promise.all([readFile(filePath, "utf8"), stat(filePath)])
+  } catch (error) {
+    if (isMissingFile(error)) {
+      throw new MapStoreError(`Map "${slug}" does not exist`, 404)
+    }
+    throw error
+  }
+
+  const [contents, stats] = file
+  const result = parseNodeMapDocument(JSON.parse(contents))
+  if (!result.success) {
+    throw new Error(`Map "${slug}" is invalid: ${result.issues.map((issue) => issue.path).join(", ")}`)
+  }
+  return { document: result.document, revision: mapRevision(result.document), updatedAt: stats.mtime }
+}
+
+// Write via a temporary file so a crash mid-write never leaves a truncated map behind
+export async function writeMap(slug: string, document: NodeMapDocument): Promise<void> {
+  const filePath = mapPath(slug)
+  const tempPath = `${filePath}.${process.pid}.tmp`
+
+  await mkdir(MAPS_DIR, { recursive: true })
+  await writeFile(tempPath, JSON.stringify(document, null, 2))
+  await rename(tempPath, filePath)
+}
+
+// Write a map under a slug that must still be free. The exclusive create means two requests racing for the same
+// slug can't both succeed, where checking first and writing after could let one overwrite the other.
+async function writeNewMap(slug: string, document: NodeMapDocument): Promise<void> {
+  const filePath = mapPath(slug)
+
+  await mkdir(MAPS_DIR, { recursive: true })
+  try {
+    await writeFile(filePath, JSON.stringify(document, null, 2), { flag: "wx" })
+  } catch (error) {
+    if (isExistingFile(error)) {
+      throw new MapStoreError(`A map with slug "${slug}" already exists`, 409)
+    }
+    throw error
+  }
+}
+
+// Saves to the same map run one after another, so a revision check can't race another write
+const mapLocks = new Map<string, Promise<unknown>>()
+
+function withMapLock<T>(slug: string, task: () => Promise<T>): Promise<T> {
+  const previous = mapLocks.get(slug) ?? Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  mapLocks.set(slug, next)
+  next
+    .catch(() => undefined)
+    .finally(() => {
+      if (mapLocks.get(slug) === next) mapLocks.delete(slug)
+    })
+  return next
+}
+
+// Read the map for a change based on `baseRevision`, refusing when the map has moved on since. Only call this
+// while holding the map's lock, so nothing can land between the check and the write.
+async function readMapForChange(slug: string, baseRevision: string): Promise<MapEntry> {
+  const current = await readMapEntry(slug)
+  if (baseRevision !== current.revision) {
+    throw new MapConflictError(slug, current)
+  }
+  return current
+}
+
+// Write new contents over `current` and keep them as a snapshot in the revision history
+async function commitMap(
+  slug: string,
+  current: MapEntry,
+  document: NodeMapDocument,
+  message?: string,
+): Promise<{ document: NodeMapDocument; revision: string }> {
+  await recordInitialSnapshot(slug, current)
+
+  // Saves from the editor don't carry the display name, so keep the stored one
+  const next = createNodeMapDocument(document, document.name ?? current.document.name)
+  const revision = mapRevision(next)
+  await writeMap(slug, next)
+  // Saving unchanged contents only adds a history entry when it comes with a message
+  if (revision !== current.revision || message) {
+    await recordSnapshot(slug, next, revision, new Date(), message)
+  }
+  return { document: next, revision }
+}
+
+// Save new map contents, refusing when the map has moved on since `baseRevision`.
+// Every save is kept as a snapshot in the revision history. Returns the revision of the saved document.
+export function saveMap(slug: string, document: NodeMapDocument, baseRevision: string, message?: string): Promise<string> {
+  return withMapLock(slug, async () => {
+    const current = await readMapForChange(slug, baseRevision)
+    return (await commitMap(slug, current, document, message)).revision
+  })
+}
+
+// Maps that predate the history get their state before the first change recorded, so it can be restored
+async function recordInitialSnapshot(slug: string, current: MapEntry) {
+  if (!(await hasSnapshots(slug))) {
+    await recordSnapshot(slug, current.document, current.revision, current.updatedAt, "Initial version")
+  }
+}
+
+async function assertMapExists(slug: string) {
+  if (!(await mapExists(slug))) {
+    throw new MapStoreError(`Map "${slug}" does not exist`, 404)
+  }
+}
+
+export async function listMapRevisions(slug: string): Promise<MapRevisionSummary[]> {
+  await assertMapExists(slug)
+  return listSnapshots(slug)
+}
+
+export async function readMapRevision(slug: string, id: string): Promise<MapSnapshot> {
+  await assertMapExists(slug)
+  const snapshot = await readSnapshot(slug, id)
+  if (!snapshot) {
+    throw new MapStoreError(`Revision "${id}" of map "${slug}" does not exist`, 404)
+  }
+  return snapshot
+}
+
+// Make an earlier snapshot the current version again (recorded as a new save). Like a save, it's refused when
+// the map has moved on since `baseRevision`.
+export function restoreMapRevision(
+  slug: string,
+  id: string,
+  baseRevision: string,
+): Promise<{ document: NodeMapDocument; revision: string }> {
+  return withMapLock(slug, async () => {
+    const current = await readMapForChange(slug, baseRevision)
+    const snapshot = await readMapRevision(slug, id)
+    const message = `Restored version from ${snapshot.savedAt.slice(0, 16).replace("T", " ")} UTC`
+    return commitMap(slug, current, snapshot.document, message)
+  })
+}
+
+export async function listMaps(): Promise<MapSummary[]> {
+  let files: string[]
+  try {
+    files = await readdir(MAPS_DIR)
+  } catch (error) {
+    if (isMissingFile(error)) return []
+    throw error
+  }
+
+  const summaries = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map(async (file): Promise<MapSummary | null> => {
+        try {
+          return await summarize(file.slice(0, -".json".length))
+        } catch (error) {
+          // One unreadable file shouldn't hide the rest of the workspace
+          console.error(`Skipping map file ${file}:`, error)
+          return null
+        }
+      }),
+  )
+
+  return summaries
+    .filter((summary): summary is MapSummary => summary !== null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function createMap(
+  name: string,
+  slug = slugify(name),
+  graph: NodeMapGraph = { nodes: [], signals: [], relationships: [], categories: [] },
+): Promise<MapSummary> {
+  if (!slug) {
+    throw new MapStoreError("Could not derive a slug from the map name", 400)
+  }
+
+  await writeNewMap(slug, createNodeMapDocument(graph, name))
+  return summarize(slug)
+}
+
+export async function duplicateMap(sourceSlug: string, name: string, slug?: string): Promise<MapSummary> {
+  const source = await readMap(sourceSlug)
+  return createMap(name, slug, source)
+}
+
+// Change a map's display name and/or slug; a new slug moves the file. A new name is recorded in the revision
+// history, but leaves the revision as it was.
+export function updateMap(slug: string, changes: { name?: string; slug?: string }): Promise<MapSummary> {
+  return withMapLock(slug, async () => {
+    const current = await readMapEntry(slug)
+    const nextSlug = changes.slug ?? slug
+    const name = changes.name ?? current.document.name
+    const nextDocument = createNodeMapDocument(current.document, name)
+
+    if (nextSlug !== slug) {
+      if (slug === DEFAULT_MAP_SLUG) {
+        throw new MapStoreError("The default map's slug cannot be changed", 409)
+      }
+      await writeNewMap(nextSlug, nextDocument)
+      await rm(mapPath(slug))
+      await moveSnapshots(slug, nextSlug)
+    } else if (name !== current.document.name) {
+      await writeMap(slug, nextDocument)
+    }
+
+    if (name !== current.document.name) {
+      await recordInitialSnapshot(nextSlug, current)
+      await recordSnapshot(nextSlug, nextDocument, current.revision, new Date(), `Renamed to "${name}"`)
+    }
+    return summarize(nextSlug)
+  })
+}
+
+// Under the map lock, so a save that is already running can't write the map back after it's gone
+export function deleteMap(slug: string): Promise<void> {
+  return withMapLock(slug, async () => {
+    if (slug === DEFAULT_MAP_SLUG) {
+      throw new MapStoreError("The default map cannot be deleted", 409)
+    }
+    await assertMapExists(slug)
+    await rm(mapPath(slug))
+    await deleteSnapshots(slug)
+  })
+}
+
+async function summarize(slug: string): Promise<MapSummary> {
+  const { document, updatedAt } = await readMapEntry(slug)
+  return {
+    slug,
+    name: document.name ?? slug,
+    nodeCount: document.nodes.length,
+    signalCount: document.signals.length,
+    updatedAt: updatedAt.toISOString(),
+  }
+}
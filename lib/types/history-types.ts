@@ -0,0 +1,8 @@
+// A reversible state transition. `apply` and `revert` must be pure so they can be replayed in any order.
+export interface HistoryCommand<T> {
+  label: string
+  apply: (state: T) => T
+  revert: (state: T) => T
+  // Consecutive commands with the same key collapse into one undo step, e.g. repeated arrow-key nudges
+  mergeKey?: string
+}
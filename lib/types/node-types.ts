@@ -1,8 +1,21 @@
-export interface Signal {
+// Optional analyst notes recorded against a signal
+export interface SignalMetadata {
+  description?: string
+  sources?: string[]
+  // First-observed date as YYYY-MM-DD
+  observedAt?: string
+  // Strength of the signal on a 1 (weak) to 5 (strong) scale
+  confidence?: number
+  tags?: string[]
+}
+
+export interface SignalData extends SignalMetadata {
   id: string
   text: string
   x: number
   y: number
+  // Nodes the signal is linked to, at least one. A signal relevant to several technologies links to each.
+  nodeIds: string[]
 }
 
 export interface NodeData {
@@ -10,10 +23,95 @@ export interface NodeData {
   text: string
   x: number
   y: number
-  signals: Signal[]
+  // Auto-layout leaves pinned nodes where they are
+  pinned?: boolean
+  // Category from the map's palette, which colors the node and its signals
+  categoryId?: string
+}
+
+// Entry in a map's category palette, e.g. "Biotech" in green
+export interface CategoryData {
+  id: string
+  name: string
+  // Hex color, e.g. "#34D399"
+  color: string
+}
+
+// How one node bears on another: "enables" points from source to target, the others go both ways
+export type RelationshipType = "enables" | "converges" | "competes"
+
+// Typed edge between two nodes, e.g. "Quantum Hardware" enables "Quantum Algorithms"
+export interface RelationshipData {
+  id: string
+  type: RelationshipType
+  sourceId: string
+  targetId: string
+  // Optional note drawn along the edge
+  label?: string
+}
+
+// Nodes plus the signals and relationships linking them and the category palette; the state the editor works on
+export interface NodeMapGraph {
+  nodes: NodeData[]
+  signals: SignalData[]
+  relationships: RelationshipData[]
+  categories: CategoryData[]
+}
+
+// Versioned envelope persisted to disk and exchanged with the API
+export interface NodeMapDocument extends NodeMapGraph {
+  schemaVersion: number
+  // Display name shown in the map index
+  name?: string
+}
+
+// Listing entry for the map index
+export interface MapSummary {
+  slug: string
+  name: string
+  nodeCount: number
+  signalCount: number
+  updatedAt: string
+}
+
+// Listing entry for a map's revision history
+export interface MapRevisionSummary {
+  id: string
+  revision: string
+  savedAt: string
+  message?: string
+  nodeCount: number
+  signalCount: number
+}
+
+export interface Position {
+  x: number
+  y: number
 }
 
 export interface ViewportOffset {
   x: number
   y: number
-} 
\ No newline at end of file
+}
+
+// Pan offset in screen pixels plus zoom factor, applied as `translate(x, y) scale(scale)`
+export interface Viewport extends ViewportOffset {
+  scale: number
+}
+
+export interface BoundingBox {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  width: number
+  height: number
+}
+
+// Axis-aligned rectangle by its top-left corner, in content coordinates
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
@@ -0,0 +1,206 @@
+import { calculateNodeBoundary, calculateSignalBoundary } from "@/lib/utils/text-boundary"
+import type { NodeMapGraph, Position, Rect } from "@/lib/types/node-types"
+
+export const ALIGN_MODES = ["left", "center", "right"] as const
+export type AlignMode = (typeof ALIGN_MODES)[number]
+export const ALIGN_LABELS: Record<AlignMode, string> = { left: "Left", center: "Center", right: "Right" }
+
+export const DISTRIBUTE_AXES = ["horizontal", "vertical"] as const
+export type DistributeAxis = (typeof DISTRIBUTE_AXES)[number]
+export const DISTRIBUTE_LABELS: Record<DistributeAxis, string> = { horizontal: "Horizontally", vertical: "Vertically" }
+
+// A line drawn while dragging to show what the dragged elements line up with
+export interface AlignmentGuide {
+  start: Position
+  end: Position
+}
+
+export interface SnapOptions {
+  // Spacing of the grid to snap to, or null to snap to other elements only
+  gridSize: number | null
+  // How close (in content pixels) an edge or center has to come to another one to snap to it
+  threshold: number
+}
+
+export interface SnapResult {
+  dx: number
+  dy: number
+  guides: AlignmentGuide[]
+}
+
+interface ElementBox {
+  id: string
+  position: Position
+  boundary: Rect
+}
+
+// Text boundaries of the given elements, or of every element when no ids are given
+function getElementBoxes({ nodes, signals }: NodeMapGraph, ids?: string[]): ElementBox[] {
+  const included = (id: string) => !ids || ids.includes(id)
+  return [
+    ...nodes
+      .filter((node) => included(node.id))
+      .map((node) => ({
+        id: node.id,
+        position: { x: node.x, y: node.y },
+        boundary: calculateNodeBoundary(node.text, node.x, node.y),
+      })),
+    ...signals
+      .filter((signal) => included(signal.id))
+      .map((signal) => ({
+        id: signal.id,
+        position: { x: signal.x, y: signal.y },
+        boundary: calculateSignalBoundary(signal.text, signal.x, signal.y),
+      })),
+  ]
+}
+
+function unionRect(rects: Rect[]): Rect {
+  const minX = Math.min(...rects.map((rect) => rect.x))
+  const minY = Math.min(...rects.map((rect) => rect.y))
+  const maxX = Math.max(...rects.map((rect) => rect.x + rect.width))
+  const maxY = Math.max(...rects.map((rect) => rect.y + rect.height))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+// Left edge, center and right edge (or top, middle and bottom) of a rectangle
+function xLines({ x, width }: Rect) {
+  return [x, x + width / 2, x + width]
+}
+
+function yLines({ y, height }: Rect) {
+  return [y, y + height / 2, y + height]
+}
+
+// Offsets below this are rounding noise, not moves
+const MIN_OFFSET = 0.01
+
+function moved(boxes: ElementBox[], offset: (box: ElementBox) => Position): Map<string, Position> {
+  const positions = new Map<string, Position>()
+  boxes.forEach((box) => {
+    const { x, y } = offset(box)
+    if (Math.abs(x) >= MIN_OFFSET || Math.abs(y) >= MIN_OFFSET) {
+      positions.set(box.id, { x: box.position.x + x, y: box.position.y + y })
+    }
+  })
+  return positions
+}
+
+// Line up the text of the elements on the left edge, center or right edge of the selection. Returns the new
+// position of every element that moves.
+export function alignElements(graph: NodeMapGraph, ids: string[], mode: AlignMode): Map<string, Position> {
+  const boxes = getElementBoxes(graph, ids)
+  if (boxes.length < 2) return new Map()
+
+  const bounds = unionRect(boxes.map((box) => box.boundary))
+  return moved(boxes, ({ boundary }) => {
+    if (mode === "left") return { x: bounds.x - boundary.x, y: 0 }
+    if (mode === "right") return { x: bounds.x + bounds.width - (boundary.x + boundary.width), y: 0 }
+    return { x: bounds.x + bounds.width / 2 - (boundary.x + boundary.width / 2), y: 0 }
+  })
+}
+
+// Space the elements so the gaps between their text are equal, keeping the outermost two in place
+export function distributeElements(graph: NodeMapGraph, ids: string[], axis: DistributeAxis): Map<string, Position> {
+  const boxes = getElementBoxes(graph, ids)
+  if (boxes.length < 3) return new Map()
+
+  const horizontal = axis === "horizontal"
+  const start = (rect: Rect) => (horizontal ? rect.x : rect.y)
+  const size = (rect: Rect) => (horizontal ? rect.width : rect.height)
+  const sorted = [...boxes].sort(
+    (a, b) => start(a.boundary) + size(a.boundary) / 2 - (start(b.boundary) + size(b.boundary) / 2),
+  )
+
+  const first = sorted[0].boundary
+  const last = sorted[sorted.length - 1].boundary
+  const span = start(last) + size(last) - start(first)
+  const gap = (span - sorted.reduce((sum, box) => sum + size(box.boundary), 0)) / (sorted.length - 1)
+
+  const offsets = new Map<string, number>()
+  let next = start(first)
+  sorted.forEach((box) => {
+    offsets.set(box.id, next - start(box.boundary))
+    next += size(box.boundary) + gap
+  })
+
+  return moved(boxes, (box) => {
+    const offset = offsets.get(box.id) ?? 0
+    return horizontal ? { x: offset, y: 0 } : { x: 0, y: offset }
+  })
+}
+
+// Closest pair of lines within the threshold, as the distance to move the moving line by
+function nearestSnap(moving: number[], targets: number[], threshold: number): number | null {
+  let best: number | null = null
+  moving.forEach((line) => {
+    targets.forEach((target) => {
+      const distance = target - line
+      if (Math.abs(distance) <= threshold && (best === null || Math.abs(distance) < Math.abs(best))) {
+        best = distance
+      }
+    })
+  })
+  return best
+}
+
+function snapToGrid(value: number, gridSize: number) {
+  return Math.round(value / gridSize) * gridSize
+}
+
+// Prepare snapping for a drag of the given elements. The returned function takes the raw drag offset and
+// returns it adjusted so the dragged text lines up with other elements' edges or centers when close to
+// them, or else (with a grid) so the grabbed element lands on a grid point. Text is measured once up front,
+// since the function runs on every mouse move.
+export function createDragSnapper(graph: NodeMapGraph, ids: string[], anchorId: string, options: SnapOptions) {
+  const moving = getElementBoxes(graph, ids)
+  const others = getElementBoxes(graph).filter((box) => !ids.includes(box.id))
+  const anchor = moving.find((box) => box.id === anchorId) ?? moving[0]
+  const group = moving.length > 0 ? unionRect(moving.map((box) => box.boundary)) : null
+
+  return (dx: number, dy: number): SnapResult => {
+    if (!group || !anchor) return { dx, dy, guides: [] }
+
+    const at = { ...group, x: group.x + dx, y: group.y + dy }
+    const snapX = nearestSnap(xLines(at), others.flatMap((box) => xLines(box.boundary)), options.threshold)
+    const snapY = nearestSnap(yLines(at), others.flatMap((box) => yLines(box.boundary)), options.threshold)
+
+    const { gridSize } = options
+    let snappedDx = dx
+    let snappedDy = dy
+    if (snapX !== null) {
+      snappedDx += snapX
+    } else if (gridSize) {
+      snappedDx = snapToGrid(anchor.position.x + dx, gridSize) - anchor.position.x
+    }
+    if (snapY !== null) {
+      snappedDy += snapY
+    } else if (gridSize) {
+      snappedDy = snapToGrid(anchor.position.y + dy, gridSize) - anchor.position.y
+    }
+
+    // Guides run through every element that lines up after snapping, from end to end of the lined-up text
+    const snapped = { ...group, x: group.x + snappedDx, y: group.y + snappedDy }
+    const guides: AlignmentGuide[] = []
+    if (snapX !== null) {
+      xLines(snapped).forEach((line) => {
+        const matches = others.filter((box) => xLines(box.boundary).some((target) => Math.abs(target - line) < 0.5))
+        if (matches.length === 0) return
+
+        const extent = unionRect([snapped, ...matches.map((box) => box.boundary)])
+        guides.push({ start: { x: line, y: extent.y }, end: { x: line, y: extent.y + extent.height } })
+      })
+    }
+    if (snapY !== null) {
+      yLines(snapped).forEach((line) => {
+        const matches = others.filter((box) => yLines(box.boundary).some((target) => Math.abs(target - line) < 0.5))
+        if (matches.length === 0) return
+
+        const extent = unionRect([snapped, ...matches.map((box) => box.boundary)])
+        guides.push({ start: { x: extent.x, y: line }, end: { x: extent.x + extent.width, y: line } })
+      })
+    }
+
+    return { dx: snappedDx, dy: snappedDy, guides }
+  }
+}
@@ -0,0 +1,212 @@
+import { calculateNodeBoundary, calculateSignalBoundary } from "@/lib/utils/text-boundary"
+import type { NodeMapGraph, Position, Rect } from "@/lib/types/node-types"
+
+// Simulation tuning. Distances are in content pixels.
+const ITERATIONS = 300
+// Extra passes at the end that only push overlapping text apart
+const SETTLE_PASSES = 30
+const SIGNAL_DISTANCE = 110
+const RELATIONSHIP_DISTANCE = 320
+const SPRING_STRENGTH = 0.08
+const NODE_REPULSION = 80000
+const SIGNAL_REPULSION = 6000
+// Beyond this distance bodies stop repelling each other
+const REPULSION_RANGE = 600
+// Weak pull towards where the map was, so the layout doesn't drift off
+const GRAVITY = 0.004
+const VELOCITY_DECAY = 0.6
+const MAX_STEP = 40
+// Gap kept between text boundaries
+const COLLISION_PADDING = 10
+
+// Spreads coincident bodies apart in a fixed, repeatable direction
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+interface Body {
+  id: string
+  type: "node" | "signal"
+  x: number
+  y: number
+  start: Position
+  vx: number
+  vy: number
+  fx: number
+  fy: number
+  // Text boundary relative to the body's position
+  box: Rect
+  pinned: boolean
+}
+
+interface Spring {
+  a: Body
+  b: Body
+  length: number
+}
+
+export interface AutoLayoutOptions {
+  // Nodes that keep their position; their signals still move
+  pinnedIds?: Set<string>
+}
+
+function paddedBox(body: Body): Rect {
+  return {
+    x: body.x + body.box.x - COLLISION_PADDING / 2,
+    y: body.y + body.box.y - COLLISION_PADDING / 2,
+    width: body.box.width + COLLISION_PADDING,
+    height: body.box.height + COLLISION_PADDING,
+  }
+}
+
+// Push two bodies apart along the axis where their boxes overlap least. Pinned bodies don't move, so the
+// other one takes the whole push.
+function separate(a: Body, b: Body) {
+  if (a.pinned && b.pinned) return
+
+  const boxA = paddedBox(a)
+  const boxB = paddedBox(b)
+  const overlapX = Math.min(boxA.x + boxA.width, boxB.x + boxB.width) - Math.max(boxA.x, boxB.x)
+  const overlapY = Math.min(boxA.y + boxA.height, boxB.y + boxB.height) - Math.max(boxA.y, boxB.y)
+  if (overlapX <= 0 || overlapY <= 0) return
+
+  const shareA = a.pinned ? 0 : b.pinned ? 1 : 0.5
+  const shareB = 1 - shareA
+  if (overlapX < overlapY) {
+    const direction = boxA.x + boxA.width / 2 <= boxB.x + boxB.width / 2 ? -1 : 1
+    a.x += direction * overlapX * shareA
+    b.x -= direction * overlapX * shareB
+  } else {
+    const direction = boxA.y + boxA.height / 2 <= boxB.y + boxB.height / 2 ? -1 : 1
+    a.y += direction * overlapY * shareA
+    b.y -= direction * overlapY * shareB
+  }
+}
+
+function resolveCollisions(bodies: Body[]) {
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      separate(bodies[i], bodies[j])
+    }
+  }
+}
+
+// Lay the map out with a force simulation: signals are pulled to their nodes and related nodes towards
+// each other, everything repels, and text boundaries may not overlap. The simulation has no randomness,
+// so the same map always gets the same layout. Returns the new position of every element that moved.
+export function computeAutoLayout(graph: NodeMapGraph, { pinnedIds = new Set() }: AutoLayoutOptions = {}) {
+  const bodies: Body[] = [
+    ...graph.nodes.map((node) => ({
+      id: node.id,
+      type: "node" as const,
+      x: node.x,
+      y: node.y,
+      box: calculateNodeBoundary(node.text, 0, 0),
+      pinned: pinnedIds.has(node.id),
+    })),
+    ...graph.signals.map((signal) => ({
+      id: signal.id,
+      type: "signal" as const,
+      x: signal.x,
+      y: signal.y,
+      box: calculateSignalBoundary(signal.text, 0, 0),
+      pinned: false,
+    })),
+  ].map((body) => ({ ...body, start: { x: body.x, y: body.y }, vx: 0, vy: 0, fx: 0, fy: 0 }))
+  const bodiesById = new Map(bodies.map((body) => [body.id, body]))
+
+  const springs: Spring[] = []
+  graph.signals.forEach((signal) => {
+    signal.nodeIds.forEach((nodeId) => {
+      const node = bodiesById.get(nodeId)
+      if (node) springs.push({ a: node, b: bodiesById.get(signal.id)!, length: SIGNAL_DISTANCE })
+    })
+  })
+  graph.relationships.forEach((relationship) => {
+    const source = bodiesById.get(relationship.sourceId)
+    const target = bodiesById.get(relationship.targetId)
+    if (source && target) springs.push({ a: source, b: target, length: RELATIONSHIP_DISTANCE })
+  })
+
+  const center =
+    bodies.length > 0
+      ? {
+          x: bodies.reduce((sum, body) => sum + body.x, 0) / bodies.length,
+          y: bodies.reduce((sum, body) => sum + body.y, 0) / bodies.length,
+        }
+      : { x: 0, y: 0 }
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    // Forces cool down linearly so the layout settles
+    const alpha = 1 - iteration / ITERATIONS
+
+    bodies.forEach((body) => {
+      body.fx = (center.x - body.x) * GRAVITY
+      body.fy = (center.y - body.y) * GRAVITY
+    })
+
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        const a = bodies[i]
+        const b = bodies[j]
+        let dx = b.x - a.x
+        let dy = b.y - a.y
+        if (dx === 0 && dy === 0) {
+          dx = Math.cos(j * GOLDEN_ANGLE)
+          dy = Math.sin(j * GOLDEN_ANGLE)
+        }
+        const distanceSquared = Math.max(dx * dx + dy * dy, 1)
+        if (distanceSquared > REPULSION_RANGE * REPULSION_RANGE) continue
+
+        const distance = Math.sqrt(distanceSquared)
+        const repulsion = a.type === "node" && b.type === "node" ? NODE_REPULSION : SIGNAL_REPULSION
+        const strength = repulsion / distanceSquared
+        const fx = (dx / distance) * strength
+        const fy = (dy / distance) * strength
+        a.fx -= fx
+        a.fy -= fy
+        b.fx += fx
+        b.fy += fy
+      }
+    }
+
+    springs.forEach(({ a, b, length }) => {
+      const dx = b.x - a.x
+      const dy = b.y - a.y
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
+      const stretch = (distance - length) * SPRING_STRENGTH
+      const fx = (dx / distance) * stretch
+      const fy = (dy / distance) * stretch
+      a.fx += fx
+      a.fy += fy
+      b.fx -= fx
+      b.fy -= fy
+    })
+
+    bodies.forEach((body) => {
+      if (body.pinned) return
+
+      body.vx = (body.vx + body.fx * alpha) * VELOCITY_DECAY
+      body.vy = (body.vy + body.fy * alpha) * VELOCITY_DECAY
+      const speed = Math.sqrt(body.vx * body.vx + body.vy * body.vy)
+      const limit = speed > MAX_STEP ? MAX_STEP / speed : 1
+      body.x += body.vx * limit
+      body.y += body.vy * limit
+    })
+
+    resolveCollisions(bodies)
+  }
+
+  for (let pass = 0; pass < SETTLE_PASSES; pass++) {
+    resolveCollisions(bodies)
+  }
+
+  const positions = new Map<string, Position>()
+  bodies.forEach((body) => {
+    if (body.pinned) return
+
+    const position = { x: Math.round(body.x), y: Math.round(body.y) }
+    if (position.x !== body.start.x || position.y !== body.start.y) {
+      positions.set(body.id, position)
+    }
+  })
+  return positions
+}
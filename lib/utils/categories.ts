@@ -0,0 +1,33 @@
+import type { NodeMapGraph, SignalData } from "@/lib/types/node-types"
+
+// Colors of elements without a category
+export const DEFAULT_NODE_COLOR = "white"
+export const DEFAULT_SIGNAL_COLOR = "#A4A1FF"
+
+// Offered in turn for new categories
+export const CATEGORY_PRESET_COLORS = [
+  "#60A5FA",
+  "#34D399",
+  "#F472B6",
+  "#FBBF24",
+  "#A78BFA",
+  "#F87171",
+  "#2DD4BF",
+  "#FB923C",
+]
+
+// Category color of every node that has one, by node id
+export function getNodeColors({ nodes, categories }: NodeMapGraph): Map<string, string> {
+  const colors = new Map(categories.map((category) => [category.id, category.color]))
+  return new Map(
+    nodes.flatMap((node) => {
+      const color = node.categoryId && colors.get(node.categoryId)
+      return color ? [[node.id, color] as const] : []
+    }),
+  )
+}
+
+// A signal takes the color of the first node it links to
+export function getSignalColor(signal: SignalData, nodeColors: Map<string, string>): string {
+  return nodeColors.get(signal.nodeIds[0]) ?? DEFAULT_SIGNAL_COLOR
+}
@@ -0,0 +1,77 @@
+// Minimal RFC 4180 reading and writing: quoted fields may hold delimiters, quotes ("") and line breaks
+
+const DELIMITERS = [",", ";", "\t"]
+// Lets Excel recognize UTF-8 files
+const BYTE_ORDER_MARK = "\uFEFF"
+
+// Spreadsheets evaluate cells starting with one of these as formulas, so exported text that does is prefixed
+// with an apostrophe. Plain numbers are left alone, so negative coordinates stay numbers.
+const FORMULA_START = /^[=+\-@\t\r]/
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i
+const ESCAPED_FORMULA_START = /^'+[=+\-@\t\r]/
+
+// Spreadsheets in some locales save with semicolons or tabs; pick whichever splits the header row most
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/))
+  const counts = DELIMITERS.map((delimiter) => header.split(delimiter).length)
+  return DELIMITERS[counts.indexOf(Math.max(...counts))]
+}
+
+// Rows of cells, without trailing empty lines
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((value) => value.trim() === "")) {
+    rows.pop()
+  }
+  // Undo the formula escaping of `formatCsv`, so exported files import unchanged
+  return rows.map((cells) => cells.map((value) => (ESCAPED_FORMULA_START.test(value) ? value.slice(1) : value)))
+}
+
+function formatCell(value: string): string {
+  // Text that already looks escaped is escaped again, so importing gives back what was exported
+  const isFormula = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value)
+  const text = isFormula || ESCAPED_FORMULA_START.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Comma-separated with CRLF line breaks, as spreadsheets expect
+export function formatCsv(rows: string[][]): string {
+  return BYTE_ORDER_MARK + rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n"
+}
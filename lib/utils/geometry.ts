@@ -0,0 +1,159 @@
+import type { BoundingBox, NodeMapGraph, Position, Rect, Viewport } from "@/lib/types/node-types"
+
+export const MIN_SCALE = 0.2
+export const MAX_SCALE = 4
+
+export function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+}
+
+// Calculate the bounding box of all content, falling back to the viewport size when empty
+export function calculateContentBounds(
+  { nodes, signals }: NodeMapGraph,
+  fallbackWidth: number,
+  fallbackHeight: number,
+): BoundingBox {
+  const fallback = {
+    minX: 0,
+    minY: 0,
+    maxX: fallbackWidth,
+    maxY: fallbackHeight,
+    width: fallbackWidth,
+    height: fallbackHeight,
+  }
+
+  if (nodes.length === 0 && signals.length === 0) return fallback
+
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+
+  // Add padding to ensure text is fully visible
+  const padding = 50
+
+  nodes.forEach((node) => {
+    // Consider the text width (approximate)
+    const textWidth = node.text.length * 8
+    const textHeight = 20
+
+    minX = Math.min(minX, node.x - textWidth / 2 - padding)
+    minY = Math.min(minY, node.y - textHeight / 2 - padding)
+    maxX = Math.max(maxX, node.x + textWidth / 2 + padding)
+    maxY = Math.max(maxY, node.y + textHeight / 2 + padding)
+  })
+
+  signals.forEach((signal) => {
+    const signalTextWidth = signal.text.length * 7
+    const signalTextHeight = 16
+
+    minX = Math.min(minX, signal.x - signalTextWidth / 2 - padding)
+    minY = Math.min(minY, signal.y - signalTextHeight / 2 - padding)
+    maxX = Math.max(maxX, signal.x + signalTextWidth / 2 + padding)
+    maxY = Math.max(maxY, signal.y + signalTextHeight / 2 + padding)
+  })
+
+  // Ensure we have valid bounds even with extreme values
+  if (!isFinite(minX) || !isFinite(minY) || !isFinite(maxX) || !isFinite(maxY)) {
+    return fallback
+  }
+
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    width: maxX - minX,
+    height: maxY - minY,
+  }
+}
+
+// Convert a point in SVG-local screen pixels to content coordinates
+export function screenToContent(viewport: Viewport, point: Position): Position {
+  return {
+    x: (point.x - viewport.x) / viewport.scale,
+    y: (point.y - viewport.y) / viewport.scale,
+  }
+}
+
+// Scale the viewport by `factor` while keeping the content under `anchor` (SVG-local pixels) fixed
+export function zoomAroundPoint(viewport: Viewport, factor: number, anchor: Position): Viewport {
+  const scale = clampScale(viewport.scale * factor)
+  const ratio = scale / viewport.scale
+
+  return {
+    x: anchor.x - (anchor.x - viewport.x) * ratio,
+    y: anchor.y - (anchor.y - viewport.y) * ratio,
+    scale,
+  }
+}
+
+// Center the bounds in a viewport of the given size at a fixed scale
+export function centerBounds(bounds: BoundingBox, width: number, height: number, scale: number): Viewport {
+  const centerX = (bounds.minX + bounds.maxX) / 2
+  const centerY = (bounds.minY + bounds.maxY) / 2
+
+  return {
+    x: width / 2 - centerX * scale,
+    y: height / 2 - centerY * scale,
+    scale,
+  }
+}
+
+// Scale and center the bounds so they fill `margin` of the viewport
+export function fitBounds(bounds: BoundingBox, width: number, height: number, margin = 0.9): Viewport {
+  if (bounds.width <= 0 || bounds.height <= 0 || width <= 0 || height <= 0) {
+    return centerBounds(bounds, width, height, 1)
+  }
+
+  const scale = clampScale(Math.min(width / bounds.width, height / bounds.height) * margin)
+  return centerBounds(bounds, width, height, scale)
+}
+
+// Rectangle spanned by two opposite corners, e.g. the start and end of a marquee drag
+export function rectFromPoints(a: Position, b: Position): Rect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  }
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+}
+
+export function rectContainsPoint(rect: Rect, point: Position): boolean {
+  return point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height
+}
+
+// Whether the segment from `start` to `end` passes through the rectangle (Liang-Barsky clipping)
+export function segmentIntersectsRect(start: Position, end: Position, rect: Rect): boolean {
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+  let enter = 0
+  let exit = 1
+
+  const edges: [number, number][] = [
+    [-dx, start.x - rect.x],
+    [dx, rect.x + rect.width - start.x],
+    [-dy, start.y - rect.y],
+    [dy, rect.y + rect.height - start.y],
+  ]
+  for (const [direction, distance] of edges) {
+    if (direction === 0) {
+      // Parallel to this edge: inside the slab or not at all
+      if (distance < 0) return false
+      continue
+    }
+    const t = distance / direction
+    if (direction < 0) {
+      enter = Math.max(enter, t)
+    } else {
+      exit = Math.min(exit, t)
+    }
+    if (enter > exit) return false
+  }
+  return true
+}
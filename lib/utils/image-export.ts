@@ -0,0 +1,55 @@
+// Resolutions offered for PNG export, as multiples of the map's content size
+export const PNG_SCALES = [1, 2, 4] as const
+export type PngScale = (typeof PNG_SCALES)[number]
+
+// Browsers refuse to draw canvases much larger than this on either side
+const MAX_CANVAS_SIZE = 16384
+
+// Fetch an image and inline it as a data URL, so an exported SVG carries it along
+export async function fetchAsDataUrl(url: string): Promise<string> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`)
+  }
+
+  const blob = await response.blob()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Pixel size of a PNG export, shrunk to fit the canvas limit if the scale would overshoot it
+export function getPngSize(width: number, height: number, scale: PngScale): { width: number; height: number } {
+  const fitted = Math.min(scale, MAX_CANVAS_SIZE / Math.max(width, height, 1))
+  return { width: Math.round(width * fitted), height: Math.round(height * fitted) }
+}
+
+// Rasterize a standalone SVG document of the given size into a PNG
+export async function svgToPng(svg: string, width: number, height: number, scale: PngScale): Promise<Blob> {
+  const size = getPngSize(width, height, scale)
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }))
+
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const canvas = document.createElement("canvas")
+    canvas.width = size.width
+    canvas.height = size.height
+    const context = canvas.getContext("2d")
+    if (!context) {
+      throw new Error("Canvas is not supported")
+    }
+    context.drawImage(image, 0, 0, size.width, size.height)
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode the PNG"))), "image/png")
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,112 @@
+import { rectsIntersect, segmentIntersectsRect } from "@/lib/utils/geometry"
+import { describeRelationship, getRelationshipEnds } from "@/lib/utils/relationships"
+import { getSignalLinks } from "@/lib/utils/signal-links"
+import {
+  calculateConnectionPoints,
+  calculateNodeBoundary,
+  calculateRelationshipPoints,
+  calculateSignalBoundary,
+} from "@/lib/utils/text-boundary"
+import type { NodeMapGraph, Position, Rect } from "@/lib/types/node-types"
+
+export interface LayoutIssue {
+  // Stable key, e.g. for lists
+  key: string
+  // Overlapping text, or a line running through text it doesn't belong to
+  kind: "overlap" | "crossing"
+  // Elements to outline and select: both overlapping ones, or the crossed element (and the signal whose line
+  // crosses it)
+  elementIds: string[]
+  message: string
+  // Where to center the view to show the problem
+  focus: Position
+}
+
+interface Label {
+  id: string
+  text: string
+  boundary: Rect
+}
+
+function center({ x, y, width, height }: Rect): Position {
+  return { x: x + width / 2, y: y + height / 2 }
+}
+
+// Find text that overlaps other text, and signal connections or relationship edges that cross labels
+// other than their own ends. Touching counts as overlapping; the check is about readability.
+export function findLayoutIssues(graph: NodeMapGraph): LayoutIssue[] {
+  const issues: LayoutIssue[] = []
+
+  // Boundaries are measured once; text measurement is the expensive part
+  const labels: Label[] = [
+    ...graph.nodes.map((node) => ({
+      id: node.id,
+      text: node.text,
+      boundary: calculateNodeBoundary(node.text, node.x, node.y),
+    })),
+    ...graph.signals.map((signal) => ({
+      id: signal.id,
+      text: signal.text,
+      boundary: calculateSignalBoundary(signal.text, signal.x, signal.y),
+    })),
+  ]
+
+  for (let i = 0; i < labels.length; i++) {
+    for (let j = i + 1; j < labels.length; j++) {
+      const a = labels[i]
+      const b = labels[j]
+      if (!rectsIntersect(a.boundary, b.boundary)) continue
+
+      const centerA = center(a.boundary)
+      const centerB = center(b.boundary)
+      issues.push({
+        key: `overlap-${a.id}-${b.id}`,
+        kind: "overlap",
+        elementIds: [a.id, b.id],
+        message: `"${a.text}" overlaps "${b.text}"`,
+        focus: { x: (centerA.x + centerB.x) / 2, y: (centerA.y + centerB.y) / 2 },
+      })
+    }
+  }
+
+  const checkLine = (key: string, start: Position, end: Position, ends: string[], lineIds: string[], name: string) => {
+    labels.forEach((label) => {
+      if (ends.includes(label.id) || !segmentIntersectsRect(start, end, label.boundary)) return
+
+      issues.push({
+        key: `crossing-${key}-${label.id}`,
+        kind: "crossing",
+        elementIds: [label.id, ...lineIds],
+        message: `${name} crosses "${label.text}"`,
+        focus: center(label.boundary),
+      })
+    })
+  }
+
+  getSignalLinks(graph).forEach(({ node, signal }) => {
+    const { start, end } = calculateConnectionPoints(node.text, node.x, node.y, signal.text, signal.x, signal.y)
+    checkLine(
+      `${node.id}-${signal.id}`,
+      start,
+      end,
+      [node.id, signal.id],
+      [signal.id],
+      `Line from "${node.text}" to "${signal.text}"`,
+    )
+  })
+
+  getRelationshipEnds(graph).forEach((relationshipEnds) => {
+    const { relationship, source, target } = relationshipEnds
+    const { start, end } = calculateRelationshipPoints(source.text, source.x, source.y, target.text, target.x, target.y)
+    checkLine(
+      relationship.id,
+      start,
+      end,
+      [source.id, target.id],
+      [],
+      `Relationship "${describeRelationship(relationshipEnds)}"`,
+    )
+  })
+
+  return issues
+}
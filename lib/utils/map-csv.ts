@@ -0,0 +1,328 @@
+import { signalMetadataSchema, signalSchema } from "@/lib/schema/node-map"
+import { calculateContentBounds } from "@/lib/utils/geometry"
+import { getNodeSignals, getSignalNodes, nextSignalPosition } from "@/lib/utils/signal-links"
+import type { NodeData, NodeMapGraph, SignalData, SignalMetadata } from "@/lib/types/node-types"
+
+// Columns of a signal list, in export order
+export const CSV_FIELDS = [
+  "id",
+  "signal",
+  "nodes",
+  "x",
+  "y",
+  "description",
+  "sources",
+  "observedAt",
+  "confidence",
+  "tags",
+] as const
+export type CsvField = (typeof CSV_FIELDS)[number]
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  id: "Signal id",
+  signal: "Signal text",
+  nodes: "Nodes",
+  x: "X",
+  y: "Y",
+  description: "Description",
+  sources: "Sources",
+  observedAt: "First observed",
+  confidence: "Confidence",
+  tags: "Tags",
+}
+
+// Header written on export; import also recognizes the aliases
+const CSV_HEADERS: Record<CsvField, string> = {
+  id: "id",
+  signal: "signal",
+  nodes: "nodes",
+  x: "x",
+  y: "y",
+  description: "description",
+  sources: "sources",
+  observedAt: "observed_at",
+  confidence: "confidence",
+  tags: "tags",
+}
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  id: ["signalid"],
+  signal: ["text", "signaltext", "title", "name"],
+  nodes: ["node", "technology", "technologies"],
+  x: ["signalx"],
+  y: ["signaly"],
+  description: ["notes", "summary"],
+  sources: ["source", "url", "urls", "links"],
+  observedAt: ["firstobserved", "observed", "date"],
+  confidence: ["strength"],
+  tags: ["tag", "keywords"],
+}
+
+// Cells holding several values (nodes, sources, tags) separate them with semicolons. Values that contain a
+// semicolon or a quote are quoted, with quotes doubled as in a CSV cell, so names like "R&D; Labs" survive.
+const LIST_SEPARATOR = ";"
+
+// Spacing of new nodes, which are lined up below the existing map
+const NEW_NODE_SPACING = 250
+const NEW_NODE_OFFSET = 150
+
+// Turn a metadata cell into the value the schema checks
+const METADATA_PARSERS: Record<keyof SignalMetadata, (cell: string) => unknown> = {
+  description: (cell) => cell,
+  sources: splitList,
+  observedAt: (cell) => cell,
+  confidence: Number,
+  tags: splitList,
+}
+
+// Column index feeding each field, or null when the field isn't imported
+export type CsvMapping = Record<CsvField, number | null>
+
+export interface SignalUpdate {
+  before: SignalData
+  after: SignalData
+  // Labels of the changed fields, e.g. "Nodes"
+  changes: string[]
+}
+
+// What importing the rows would do to the map; nothing is applied until it's confirmed
+export interface CsvImportPlan {
+  addedNodes: NodeData[]
+  addedSignals: SignalData[]
+  updatedSignals: SignalUpdate[]
+  unchangedCount: number
+  // Skipped rows, numbered as in a spreadsheet, where the header is row 1
+  errors: { row: number; message: string }[]
+}
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+function joinList(values: string[]): string {
+  return values
+    .map((value) => (/[;"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+    .join(`${LIST_SEPARATOR} `)
+}
+
+function splitList(cell: string): string[] {
+  const values: string[] = []
+  let value = ""
+  let inQuotes = false
+
+  for (let i = 0; i < cell.length; i++) {
+    const char = cell[i]
+    if (inQuotes) {
+      if (char === '"' && cell[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        value += char
+      }
+    } else if (char === '"' && value.trim() === "") {
+      value = ""
+      inQuotes = true
+    } else if (char === LIST_SEPARATOR) {
+      values.push(value)
+      value = ""
+    } else {
+      value += char
+    }
+  }
+  values.push(value)
+
+  return values.map((item) => item.trim()).filter((item) => item.length > 0)
+}
+
+function sameText(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+// One row per signal, naming its nodes rather than referencing their ids so the sheet reads on its own
+export function exportSignalsToCsv({ nodes, signals }: NodeMapGraph): string[][] {
+  return [
+    CSV_FIELDS.map((field) => CSV_HEADERS[field]),
+    ...signals.map((signal) => [
+      signal.id,
+      signal.text,
+      joinList(getSignalNodes(nodes, signal).map((node) => node.text)),
+      String(signal.x),
+      String(signal.y),
+      signal.description ?? "",
+      joinList(signal.sources ?? []),
+      signal.observedAt ?? "",
+      signal.confidence?.toString() ?? "",
+      joinList(signal.tags ?? []),
+    ]),
+  ]
+}
+
+// Match columns to fields by their header, so an exported sheet maps itself
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const normalized = headers.map(normalizeHeader)
+  return Object.fromEntries(
+    CSV_FIELDS.map((field) => {
+      const names = [normalizeHeader(CSV_HEADERS[field]), ...HEADER_ALIASES[field]]
+      const index = normalized.findIndex((header) => names.includes(header))
+      return [field, index === -1 ? null : index]
+    }),
+  ) as CsvMapping
+}
+
+function describeSignalChanges(before: SignalData, after: SignalData): string[] {
+  const fields: [CsvField, unknown, unknown][] = [
+    ["signal", before.text, after.text],
+    ["nodes", before.nodeIds, after.nodeIds],
+    ["x", before.x, after.x],
+    ["y", before.y, after.y],
+    ["description", before.description, after.description],
+    ["sources", before.sources, after.sources],
+    ["observedAt", before.observedAt, after.observedAt],
+    ["confidence", before.confidence, after.confidence],
+    ["tags", before.tags, after.tags],
+  ]
+  return fields.filter(([, a, b]) => JSON.stringify(a) !== JSON.stringify(b)).map(([field]) => CSV_FIELD_LABELS[field])
+}
+
+// Copy of the signal with the given metadata fields set, or dropped where undefined
+function withMetadata(signal: SignalData, metadata: SignalMetadata): SignalData {
+  const next = { ...signal, ...metadata }
+  ;(Object.keys(metadata) as (keyof SignalMetadata)[]).forEach((field) => {
+    if (next[field] === undefined) delete next[field]
+  })
+  return next
+}
+
+// Work out the adds and updates for the data rows below the header. A row updates the signal with the same id,
+// or else the same text, and otherwise adds one; nodes are matched by name and created when unknown. Elements
+// without coordinates are placed automatically: new nodes in a row below the map, new signals around their
+// first node.
+export function planCsvImport(
+  graph: NodeMapGraph,
+  rows: string[][],
+  mapping: CsvMapping,
+  stamp = Date.now(),
+): CsvImportPlan {
+  const plan: CsvImportPlan = { addedNodes: [], addedSignals: [], updatedSignals: [], unchangedCount: 0, errors: [] }
+  const usedIds = new Set([...graph.nodes, ...graph.signals, ...graph.relationships].map((element) => element.id))
+  // Row that claimed each existing signal, so a second row for it is reported rather than silently applied
+  const claimedSignals = new Map<string, number>()
+  const unplacedSignals = new Set<SignalData>()
+
+  const findOrAddNode = (name: string) => {
+    const known = [...graph.nodes, ...plan.addedNodes].find((node) => sameText(node.text, name))
+    if (known) return known
+
+    const node: NodeData = { id: `node-${stamp}-${plan.addedNodes.length}`, text: name, x: 0, y: 0 }
+    plan.addedNodes.push(node)
+    return node
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    if (row.every((value) => value.trim() === "")) return
+
+    const rowNumber = index + 2
+    const fail = (message: string) => {
+      plan.errors.push({ row: rowNumber, message })
+    }
+    const cell = (field: CsvField) => {
+      const column = mapping[field]
+      return column === null ? undefined : (row[column] ?? "").trim()
+    }
+
+    const text = cell("signal")
+    if (!text) return fail("Missing signal text")
+
+    // An unknown id falls back to matching by text; several signals may share a text, one row each
+    const id = cell("id")
+    const byId = id ? graph.signals.filter((signal) => signal.id === id) : []
+    const candidates = byId.length > 0 ? byId : graph.signals.filter((signal) => sameText(signal.text, text))
+    const existing = candidates.find((signal) => !claimedSignals.has(signal.id))
+    if (!existing && candidates.length > 0) {
+      return fail(`Same signal as row ${claimedSignals.get(candidates[0].id)}`)
+    }
+
+    // Coordinates come as a pair; leaving both empty has the signal placed automatically
+    const [xCell = "", yCell = ""] = [cell("x"), cell("y")]
+    const position = xCell || yCell ? { x: Number(xCell), y: Number(yCell) } : null
+    if (position && (!xCell || !yCell || !Number.isFinite(position.x) || !Number.isFinite(position.y))) {
+      return fail("X and Y must both be numbers")
+    }
+
+    const metadata = Object.fromEntries(
+      (Object.keys(METADATA_PARSERS) as (keyof SignalMetadata)[]).flatMap((field) => {
+        const value = cell(field)
+        if (value === undefined) return []
+        const parsed = METADATA_PARSERS[field](value)
+        return [[field, value === "" || (Array.isArray(parsed) && parsed.length === 0) ? undefined : parsed]]
+      }),
+    ) as SignalMetadata
+    const result = signalMetadataSchema.safeParse(metadata)
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      return fail(`${CSV_FIELD_LABELS[issue.path[0] as CsvField]}: ${issue.message}`)
+    }
+
+    const nodeNames = splitList(cell("nodes") ?? "")
+    if (!existing && nodeNames.length === 0) return fail("Missing node")
+    const nodeIds = [...new Set(nodeNames.map((name) => findOrAddNode(name).id))]
+
+    if (existing) {
+      claimedSignals.set(existing.id, rowNumber)
+      const after = withMetadata(
+        { ...existing, text, ...(nodeIds.length > 0 && { nodeIds }), ...position },
+        metadata,
+      )
+      const changes = describeSignalChanges(existing, after)
+      if (changes.length > 0) {
+        plan.updatedSignals.push({ before: existing, after, changes })
+      } else {
+        plan.unchangedCount++
+      }
+      return
+    }
+
+    // Keep a given id when it's usable, so the next export/import round trip matches the signal by id
+    const isUsableId = id && signalSchema.shape.id.safeParse(id).success && !usedIds.has(id)
+    const newId = isUsableId ? id : `signal-${stamp}-${rowNumber}`
+    usedIds.add(newId)
+    const signal = withMetadata({ id: newId, text, x: 0, y: 0, nodeIds, ...position }, metadata)
+    plan.addedSignals.push(signal)
+    if (!position) unplacedSignals.add(signal)
+  })
+
+  // Line new nodes up below everything else
+  const bounds = calculateContentBounds(graph, 0, 0)
+  plan.addedNodes.forEach((node, index) => {
+    node.x = bounds.minX + NEW_NODE_SPACING / 2 + index * NEW_NODE_SPACING
+    node.y = bounds.maxY + NEW_NODE_OFFSET
+  })
+
+  // Fan unplaced signals out around their first node, after the signals it already has
+  const nodesById = new Map([...graph.nodes, ...plan.addedNodes].map((node) => [node.id, node]))
+  const signalCounts = new Map<string, number>()
+  unplacedSignals.forEach((signal) => {
+    const node = nodesById.get(signal.nodeIds[0])!
+    const count = signalCounts.get(node.id) ?? getNodeSignals(graph.signals, node.id).length
+    Object.assign(signal, nextSignalPosition(node, count))
+    signalCounts.set(node.id, count + 1)
+  })
+
+  return plan
+}
+
+export function hasCsvImportChanges(plan: CsvImportPlan) {
+  return plan.addedNodes.length + plan.addedSignals.length + plan.updatedSignals.length > 0
+}
+
+// The map with the plan applied
+export function applyCsvImport(graph: NodeMapGraph, plan: CsvImportPlan): NodeMapGraph {
+  const updates = new Map(plan.updatedSignals.map(({ after }) => [after.id, after]))
+  return {
+    ...graph,
+    nodes: [...graph.nodes, ...plan.addedNodes],
+    signals: [...graph.signals.map((signal) => updates.get(signal.id) ?? signal), ...plan.addedSignals],
+  }
+}
@@ -0,0 +1,156 @@
+import { pickSignalMetadata } from "@/lib/commands/node-map"
+import { describeRelationship, getRelationshipEnds } from "@/lib/utils/relationships"
+import type { NodeMapGraph, RelationshipData, SignalData } from "@/lib/types/node-types"
+
+export type MapChangeKind = "added" | "removed" | "renamed" | "moved" | "linked" | "details"
+
+export interface MapChange {
+  kind: MapChangeKind
+  element: "node" | "signal" | "relationship" | "category"
+  id: string
+  // Text in the newer version (or the removed element's text)
+  text: string
+  // Previous text, only for renames
+  previousText?: string
+  // Nodes the signal links to in the newer version, for added signals and changed links
+  nodeTexts?: string[]
+}
+
+function sameMetadata(a: SignalData, b: SignalData) {
+  return JSON.stringify(pickSignalMetadata(a)) === JSON.stringify(pickSignalMetadata(b))
+}
+
+function sameRelationship(a: RelationshipData, b: RelationshipData) {
+  return a.type === b.type && a.sourceId === b.sourceId && a.targetId === b.targetId && a.label === b.label
+}
+
+function sameLinks(a: SignalData, b: SignalData) {
+  return [...a.nodeIds].sort().join() === [...b.nodeIds].sort().join()
+}
+
+// Describe what changed between two versions of a map, element by element (matched by id)
+export function diffNodeMaps(before: NodeMapGraph, after: NodeMapGraph): MapChange[] {
+  const changes: MapChange[] = []
+
+  const beforeNodes = new Map(before.nodes.map((node) => [node.id, node]))
+  const afterNodes = new Map(after.nodes.map((node) => [node.id, node]))
+  const nodeTexts = (signal: SignalData) =>
+    signal.nodeIds.map((id) => afterNodes.get(id)?.text ?? beforeNodes.get(id)?.text ?? id)
+
+  after.nodes.forEach((node) => {
+    const previous = beforeNodes.get(node.id)
+    if (!previous) {
+      changes.push({ kind: "added", element: "node", id: node.id, text: node.text })
+      return
+    }
+    if (previous.text !== node.text) {
+      changes.push({ kind: "renamed", element: "node", id: node.id, text: node.text, previousText: previous.text })
+    }
+    if (previous.x !== node.x || previous.y !== node.y) {
+      changes.push({ kind: "moved", element: "node", id: node.id, text: node.text })
+    }
+    if (Boolean(previous.pinned) !== Boolean(node.pinned) || previous.categoryId !== node.categoryId) {
+      changes.push({ kind: "details", element: "node", id: node.id, text: node.text })
+    }
+  })
+  before.nodes.forEach((node) => {
+    if (!afterNodes.has(node.id)) {
+      changes.push({ kind: "removed", element: "node", id: node.id, text: node.text })
+    }
+  })
+
+  const beforeSignals = new Map(before.signals.map((signal) => [signal.id, signal]))
+  const afterSignals = new Map(after.signals.map((signal) => [signal.id, signal]))
+
+  afterSignals.forEach((signal, id) => {
+    const previous = beforeSignals.get(id)
+    if (!previous) {
+      changes.push({ kind: "added", element: "signal", id, text: signal.text, nodeTexts: nodeTexts(signal) })
+      return
+    }
+    if (previous.text !== signal.text) {
+      changes.push({ kind: "renamed", element: "signal", id, text: signal.text, previousText: previous.text })
+    }
+    if (previous.x !== signal.x || previous.y !== signal.y) {
+      changes.push({ kind: "moved", element: "signal", id, text: signal.text })
+    }
+    if (!sameLinks(previous, signal)) {
+      changes.push({ kind: "linked", element: "signal", id, text: signal.text, nodeTexts: nodeTexts(signal) })
+    }
+    if (!sameMetadata(previous, signal)) {
+      changes.push({ kind: "details", element: "signal", id, text: signal.text })
+    }
+  })
+  beforeSignals.forEach((signal, id) => {
+    if (!afterSignals.has(id)) {
+      changes.push({ kind: "removed", element: "signal", id, text: signal.text })
+    }
+  })
+
+  // Relationships read as sentences, e.g. "Quantum Hardware enables Quantum Algorithms"
+  const beforeRelationships = new Map(getRelationshipEnds(before).map((ends) => [ends.relationship.id, ends]))
+  const afterRelationships = new Map(getRelationshipEnds(after).map((ends) => [ends.relationship.id, ends]))
+
+  afterRelationships.forEach((ends, id) => {
+    const previous = beforeRelationships.get(id)
+    if (!previous) {
+      changes.push({ kind: "added", element: "relationship", id, text: describeRelationship(ends) })
+    } else if (!sameRelationship(previous.relationship, ends.relationship)) {
+      changes.push({ kind: "details", element: "relationship", id, text: describeRelationship(ends) })
+    }
+  })
+  beforeRelationships.forEach((ends, id) => {
+    if (!afterRelationships.has(id)) {
+      changes.push({ kind: "removed", element: "relationship", id, text: describeRelationship(ends) })
+    }
+  })
+
+  const beforeCategories = new Map(before.categories.map((category) => [category.id, category]))
+  const afterCategories = new Map(after.categories.map((category) => [category.id, category]))
+
+  afterCategories.forEach((category, id) => {
+    const previous = beforeCategories.get(id)
+    if (!previous) {
+      changes.push({ kind: "added", element: "category", id, text: category.name })
+      return
+    }
+    if (previous.name !== category.name) {
+      changes.push({ kind: "renamed", element: "category", id, text: category.name, previousText: previous.name })
+    }
+    if (previous.color !== category.color) {
+      changes.push({ kind: "details", element: "category", id, text: category.name })
+    }
+  })
+  beforeCategories.forEach((category, id) => {
+    if (!afterCategories.has(id)) {
+      changes.push({ kind: "removed", element: "category", id, text: category.name })
+    }
+  })
+
+  return changes
+}
+
+// "A", "A" and "B", "A", "B" and "C"
+function listTexts(texts: string[]) {
+  const quoted = texts.map((text) => `"${text}"`)
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(", ")} and ${quoted[quoted.length - 1]}` : quoted.join("")
+}
+
+// One-line, human readable summary, e.g. `Renamed node "AI" to "Generative AI"`
+export function describeMapChange(change: MapChange): string {
+  const label = `${change.element} "${change.text}"`
+  switch (change.kind) {
+    case "added":
+      return `Added ${label}${change.nodeTexts?.length ? ` to ${listTexts(change.nodeTexts)}` : ""}`
+    case "removed":
+      return `Removed ${label}`
+    case "renamed":
+      return `Renamed ${change.element} "${change.previousText}" to "${change.text}"`
+    case "moved":
+      return `Moved ${label}`
+    case "linked":
+      return `Linked ${label} to ${listTexts(change.nodeTexts ?? [])}`
+    case "details":
+      return `Edited details of ${label}`
+  }
+}
@@ -0,0 +1,29 @@
+import { RELATIONSHIP_LABELS } from "@/lib/schema/node-map"
+import type { NodeData, NodeMapGraph, RelationshipData } from "@/lib/types/node-types"
+
+// A relationship together with the nodes at either end, drawn as an edge on the map
+export interface RelationshipEnds {
+  relationship: RelationshipData
+  source: NodeData
+  target: NodeData
+}
+
+// Every relationship whose nodes both exist
+export function getRelationshipEnds({ nodes, relationships }: NodeMapGraph): RelationshipEnds[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  return relationships.flatMap((relationship) => {
+    const source = nodesById.get(relationship.sourceId)
+    const target = nodesById.get(relationship.targetId)
+    return source && target ? [{ relationship, source, target }] : []
+  })
+}
+
+// Relationships starting or ending at a node
+export function getNodeRelationships(graph: NodeMapGraph, nodeId: string): RelationshipEnds[] {
+  return getRelationshipEnds(graph).filter(({ source, target }) => source.id === nodeId || target.id === nodeId)
+}
+
+// Reads the relationship as a sentence, e.g. "Quantum Hardware enables Quantum Algorithms"
+export function describeRelationship({ relationship, source, target }: RelationshipEnds): string {
+  return `${source.text} ${RELATIONSHIP_LABELS[relationship.type].toLowerCase()} ${target.text}`
+}
@@ -0,0 +1,111 @@
+import { getNodeSignals } from "@/lib/utils/signal-links"
+import type { NodeMapGraph, Position, SignalData } from "@/lib/types/node-types"
+
+// Opacity of elements that don't match an active search
+export const DIMMED_OPACITY = 0.2
+
+export interface SearchCriteria {
+  // Free text, matched loosely against element text and signal descriptions
+  query: string
+  // Only signals carrying at least one of these tags, and the nodes they link to
+  tags: string[]
+  // Only nodes in one of these categories, and their signals
+  categoryIds: string[]
+}
+
+export interface SearchMatch {
+  id: string
+  type: "node" | "signal"
+  position: Position
+  score: number
+}
+
+// A description match ranks below the same match in the element's own text
+const DESCRIPTION_PENALTY = 10
+// Letters of a fuzzy match may be spread over at most this many times the term's length
+const MAX_SPREAD = 3
+
+export function isSearchActive({ query, tags, categoryIds }: SearchCriteria) {
+  return query.trim().length > 0 || tags.length > 0 || categoryIds.length > 0
+}
+
+// Score one search term against text: whole substrings beat scattered letters, and matches at the start
+// of a word beat ones inside it. Returns null when the term doesn't match.
+function scoreTerm(term: string, text: string): number | null {
+  const index = text.indexOf(term)
+  if (index !== -1) {
+    const atWordStart = index === 0 || /\W/.test(text[index - 1])
+    return 100 + (atWordStart ? 20 : 0) - index * 0.1
+  }
+
+  // Letters in order with gaps, e.g. "qcomp" in "quantum computing"
+  let position = -1
+  let first = -1
+  for (const char of term) {
+    position = text.indexOf(char, position + 1)
+    if (position === -1) return null
+    if (first === -1) first = position
+  }
+  const span = position - first + 1
+  if (span > term.length * MAX_SPREAD) return null
+  return 50 - (span - term.length)
+}
+
+// Every whitespace-separated term has to match; the scores add up
+export function fuzzyScore(query: string, text: string | undefined): number | null {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (!text || terms.length === 0) return null
+
+  const haystack = text.toLowerCase()
+  let total = 0
+  for (const term of terms) {
+    const score = scoreTerm(term, haystack)
+    if (score === null) return null
+    total += score
+  }
+  return total
+}
+
+// All tags used on the map's signals, sorted
+export function getMapTags({ signals }: NodeMapGraph): string[] {
+  return [...new Set(signals.flatMap((signal) => signal.tags ?? []))].sort((a, b) => a.localeCompare(b))
+}
+
+// Elements matching the search, best first (ties keep map order)
+export function searchMap(graph: NodeMapGraph, criteria: SearchCriteria): SearchMatch[] {
+  if (!isSearchActive(criteria)) return []
+
+  const { query, tags, categoryIds } = criteria
+  const hasQuery = query.trim().length > 0
+  const categorizedNodeIds = new Set(
+    graph.nodes.filter((node) => node.categoryId && categoryIds.includes(node.categoryId)).map((node) => node.id),
+  )
+  const inCategory = (nodeId: string) => categoryIds.length === 0 || categorizedNodeIds.has(nodeId)
+  const tagged = (signal: SignalData) =>
+    tags.length === 0 || (signal.tags ?? []).some((tag) => tags.includes(tag))
+  // A signal passes the filters when it carries a tag and links to a node in a category
+  const filtered = (signal: SignalData) => tagged(signal) && signal.nodeIds.some(inCategory)
+
+  const matches: SearchMatch[] = []
+  graph.nodes.forEach((node) => {
+    if (!inCategory(node.id)) return
+    if (tags.length > 0 && !getNodeSignals(graph.signals, node.id).some(tagged)) return
+
+    const score = hasQuery ? fuzzyScore(query, node.text) : 0
+    if (score !== null) {
+      matches.push({ id: node.id, type: "node", position: { x: node.x, y: node.y }, score })
+    }
+  })
+  graph.signals.forEach((signal) => {
+    if (!filtered(signal)) return
+
+    const textScore = hasQuery ? fuzzyScore(query, signal.text) : 0
+    const descriptionScore = hasQuery ? fuzzyScore(query, signal.description) : null
+    const score = Math.max(textScore ?? -Infinity, (descriptionScore ?? -Infinity) - DESCRIPTION_PENALTY)
+    if (score !== -Infinity) {
+      matches.push({ id: signal.id, type: "signal", position: { x: signal.x, y: signal.y }, score })
+    }
+  })
+
+  return matches.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,46 @@
+import type { NodeData, NodeMapGraph, Position, SignalData } from "@/lib/types/node-types"
+
+// One node-signal connection, drawn as a line on the map
+export interface SignalLink {
+  node: NodeData
+  signal: SignalData
+}
+
+// Every link in the map, signal by signal
+export function getSignalLinks({ nodes, signals }: NodeMapGraph): SignalLink[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  return signals.flatMap((signal) =>
+    signal.nodeIds.flatMap((nodeId) => {
+      const node = nodesById.get(nodeId)
+      return node ? [{ node, signal }] : []
+    }),
+  )
+}
+
+// Signals linked to a node
+export function getNodeSignals(signals: SignalData[], nodeId: string): SignalData[] {
+  return signals.filter((signal) => signal.nodeIds.includes(nodeId))
+}
+
+// Nodes a signal links to, in link order
+export function getSignalNodes(nodes: NodeData[], signal: SignalData): NodeData[] {
+  return signal.nodeIds.flatMap((nodeId) => nodes.find((node) => node.id === nodeId) ?? [])
+}
+
+// Spot for another signal around `node`, which already has `existingSignals` linked to it: signals fan
+// out in a semi-circle below the node
+export function nextSignalPosition(node: NodeData, existingSignals: number): Position {
+  // Calculate angle based on number of existing signals
+  // This will distribute signals in a semi-circle around the node
+  const angleStep = Math.PI / (existingSignals + 2) // +2 to leave space on both ends
+  const angle = angleStep * (existingSignals + 1)
+
+  // Distance from node
+  const distance = 100
+
+  // Calculate position using polar coordinates
+  return {
+    x: node.x + Math.cos(angle) * distance,
+    y: node.y + Math.sin(angle) * distance,
+  }
+}
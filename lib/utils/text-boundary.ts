@@ -3,7 +3,7 @@ interface Point {
   y: number;
 }
 
-interface TextBoundary {
+export interface TextBoundary {
   x: number;
   y: number;
   width: number;
@@ -66,23 +66,26 @@ function estimateTextWidth(text: string, fontSize: number): number {
   return text.length * fontSize * 0.6;
 }
 
-// Break text into lines based on maxWidth using simple estimation
+// Break text into lines based on maxWidth using simple estimation. Explicit line breaks are kept.
 function breakTextIntoLines(text: string, fontSize: number, maxWidth: number): string[] {
-  const words = text.split(' ');
   const lines: string[] = [];
-  let currentLine = words[0];
-
-  for (let i = 1; i < words.length; i++) {
-    const word = words[i];
-    const width = estimateTextWidth(`${currentLine} ${word}`, fontSize);
-    if (width < maxWidth) {
-      currentLine += " " + word;
-    } else {
-      lines.push(currentLine);
-      currentLine = word;
+
+  text.split('\n').forEach((paragraph) => {
+    const words = paragraph.split(' ');
+    let currentLine = words[0];
+
+    for (let i = 1; i < words.length; i++) {
+      const word = words[i];
+      const width = estimateTextWidth(`${currentLine} ${word}`, fontSize);
+      if (width < maxWidth) {
+        currentLine += " " + word;
+      } else {
+        lines.push(currentLine);
+        currentLine = word;
+      }
     }
-  }
-  lines.push(currentLine);
+    lines.push(currentLine);
+  });
   return lines;
 }
 
@@ -255,6 +258,35 @@ export function findNearestBoundaryPoint(boundary: TextBoundary, point: Point):
   return nearestPoint;
 }
 
+// Text styles the map renders nodes and signals with
+const nodeOptions: TextOptions = {
+  fontSize: 16,
+  fontFamily: 'sans-serif',
+  alignment: 'center',
+  verticalAlignment: 'middle'
+};
+
+const signalOptions: TextOptions = {
+  fontSize: 12,
+  fontFamily: 'sans-serif',
+  alignment: 'center',
+  verticalAlignment: 'middle',
+  maxWidth: 150
+};
+
+export function calculateNodeBoundary(text: string, x: number, y: number, customPadding?: LineBasedPadding): TextBoundary {
+  return calculateTextBoundary(text, x, y, nodeOptions, { maxWidth: signalOptions.maxWidth, padding: customPadding });
+}
+
+export function calculateSignalBoundary(text: string, x: number, y: number, customPadding?: LineBasedPadding): TextBoundary {
+  return calculateTextBoundary(text, x, y, signalOptions, { maxWidth: signalOptions.maxWidth, padding: customPadding });
+}
+
+// Lines a signal's text wraps into when rendered
+export function getSignalLines(signalText: string): string[] {
+  return breakTextIntoLines(signalText, signalOptions.fontSize, signalOptions.maxWidth || 0);
+}
+
 // Calculate connection points between node and signal with new options
 export function calculateConnectionPoints(
   nodeText: string,
@@ -265,39 +297,32 @@ export function calculateConnectionPoints(
   signalY: number,
   customPadding?: LineBasedPadding
 ): { start: Point; end: Point; signalLines: string[] } {
-  const nodeOptions: TextOptions = {
-    fontSize: 16,
-    fontFamily: 'sans-serif',
-    alignment: 'center',
-    verticalAlignment: 'middle'
-  };
-
-  const signalOptions: TextOptions = {
-    fontSize: 12,
-    fontFamily: 'sans-serif',
-    alignment: 'center',
-    verticalAlignment: 'middle',
-    maxWidth: 150
-  };
-
-  // Pass custom padding configuration through boundary options
-  const boundaryOptions: BoundaryOptions = {
-    maxWidth: signalOptions.maxWidth,
-    padding: customPadding
-  };
-
-  const nodeBoundary = calculateTextBoundary(nodeText, nodeX, nodeY, nodeOptions, boundaryOptions);
-  const signalBoundary = calculateTextBoundary(signalText, signalX, signalY, signalOptions, boundaryOptions);
+  const nodeBoundary = calculateNodeBoundary(nodeText, nodeX, nodeY, customPadding);
+  const signalBoundary = calculateSignalBoundary(signalText, signalX, signalY, customPadding);
 
   const start = findNearestBoundaryPoint(nodeBoundary, { x: signalX, y: signalY });
   const end = findNearestBoundaryPoint(signalBoundary, { x: nodeX, y: nodeY });
 
   // Get signal text lines for rendering
-  const signalLines = breakTextIntoLines(
-    signalText,
-    signalOptions.fontSize,
-    signalOptions.maxWidth || 0
-  );
+  const signalLines = getSignalLines(signalText);
 
   return { start, end, signalLines };
-} 
\ No newline at end of file
+}
+
+// Calculate where a relationship edge leaves its source node and meets its target node
+export function calculateRelationshipPoints(
+  sourceText: string,
+  sourceX: number,
+  sourceY: number,
+  targetText: string,
+  targetX: number,
+  targetY: number
+): { start: Point; end: Point } {
+  const sourceBoundary = calculateNodeBoundary(sourceText, sourceX, sourceY);
+  const targetBoundary = calculateNodeBoundary(targetText, targetX, targetY);
+
+  const start = findNearestBoundaryPoint(sourceBoundary, { x: targetX, y: targetY });
+  const end = findNearestBoundaryPoint(targetBoundary, { x: sourceX, y: sourceY });
+
+  return { start, end };
+}